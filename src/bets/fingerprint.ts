@@ -0,0 +1,20 @@
+import { createHash } from 'crypto';
+import type { NormalizedBet } from '../types/index.js';
+
+/**
+ * Stable key for a bet that has no ticket ID, built from the fields a re-scrape
+ * reproduces exactly: site, placed time, selection, stake and odds.
+ * Status and profit are left out so a bet keeps its fingerprint when it grades.
+ */
+export function betFingerprint(
+  bet: Pick<NormalizedBet, 'siteId' | 'placedAt' | 'selection' | 'stake' | 'oddsAmerican'>
+): string {
+  const parts = [
+    bet.siteId,
+    bet.placedAt ?? '',
+    bet.selection.trim().replace(/\s+/g, ' ').toLowerCase(),
+    bet.stake.toFixed(2),
+    bet.oddsAmerican === null ? '' : String(Math.round(bet.oddsAmerican)),
+  ];
+  return createHash('sha256').update(parts.join('|')).digest('hex').slice(0, 32);
+}
@@ -0,0 +1,4 @@
+export * from './parse.js';
+export * from './legs.js';
+export * from './normalize.js';
+export * from './fingerprint.js';
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { parseEvent, parseLeg, parseTicketType, toRawLegs } from './legs.js';
+
+describe('parseTicketType', () => {
+  it.each([
+    ['Parlay (3 Teams)', 3, 'parlay', null],
+    ['Teaser 6 pts', 2, 'teaser', 6],
+    ['NFL Teaser 6.5 Points', 2, 'teaser', 6.5],
+    ['Teaser 4½ pt', 2, 'teaser', 4.5],
+    ['Round Robin', 3, 'round-robin', null],
+    ['Round-Robin 2 of 3', 3, 'round-robin', null],
+    ['If Win Only', 2, 'if-bet', null],
+    ['Action Reverse', 2, 'if-bet', null],
+    ['Straight', 1, 'straight', null],
+    ['Straight Bet', 1, 'straight', null],
+    [undefined, 1, 'straight', null],
+    // Several legs but an unrecognised type is still a multi-leg ticket
+    ['Special', 2, 'parlay', null],
+  ])('%j with %d legs', (text, legs, ticketType, teaserPoints) => {
+    expect(parseTicketType(text, legs)).toEqual({ ticketType, teaserPoints });
+  });
+
+  it('does not match the words inside other words', () => {
+    expect(parseTicketType('Reversed Line Straight', 1).ticketType).toBe('straight');
+    expect(parseTicketType('Specifics', 1).ticketType).toBe('straight');
+  });
+});
+
+describe('parseLeg', () => {
+  it.each([
+    ['Lakers -5½ -110', { line: -5.5, oddsAmerican: -110, oddsDecimal: 1.909, market: 'Spread' }],
+    ['Lakers vs Celtics o215.5 -110', { line: 215.5, oddsAmerican: -110, market: 'Total', event: 'Lakers vs Celtics' }],
+    ['Under 44 +105', { line: 44, oddsAmerican: 105, market: 'Total' }],
+    ['Yankees ML +150', { line: null, oddsAmerican: 150, oddsDecimal: 2.5, market: 'Moneyline' }],
+    ['Arsenal @ 1.952', { oddsAmerican: -105, oddsDecimal: 1.952 }],
+    ['Some prop with no price', { line: null, oddsAmerican: null, oddsDecimal: null }],
+  ])('%s', (text, expected) => {
+    expect(parseLeg({ text })).toMatchObject({ selection: text, ...expected });
+  });
+
+  it('keeps fields the book gave per leg and reads the leg result', () => {
+    expect(parseLeg({ text: 'Chiefs -3 -110', event: 'Bills vs Chiefs', market: 'Spread', sport: 'NFL', result: 'Loss' })).toMatchObject({
+      event: 'Bills vs Chiefs',
+      sport: 'NFL',
+      market: 'Spread',
+      status: 'lost',
+    });
+  });
+});
+
+describe('parseEvent', () => {
+  it.each([
+    ['Lakers vs Celtics o215.5 -110', 'Lakers vs Celtics'],
+    ['Bills @ Chiefs -3 -110', 'Bills vs Chiefs'],
+    ['Chiefs -3 -110', null],
+  ])('%s', (text, expected) => {
+    expect(parseEvent(text)).toBe(expected);
+  });
+});
+
+describe('toRawLegs', () => {
+  it('accepts strings and leg objects and drops blanks', () => {
+    expect(toRawLegs(['A -110', { text: 'B +120', result: 'Win' }, '  ', { nope: true }, 5])).toEqual([
+      { text: 'A -110' },
+      { text: 'B +120', result: 'Win' },
+    ]);
+    expect(toRawLegs(undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,121 @@
+import { parseBetStatus, toOdds, inferMarket } from './parse.js';
+import type { BetLeg, NormalizedBet, TicketType } from '../types/index.js';
+
+/**
+ * Parsing for multi-leg tickets (parlays, teasers, round robins, if-bets).
+ * Books show each leg as a line of text like "Lakers -5½ -110" or "o215.5 -110".
+ */
+
+/** Leg text as captured by a scraper, before parsing */
+export interface RawLeg {
+  /** Leg text as shown on the ticket */
+  text: string;
+  /** Event text, if the book shows it separately */
+  event?: string | null;
+  /** Sport, if the book shows it per leg */
+  sport?: string | null;
+  /** Market/bet type, if the book shows it per leg */
+  market?: string | null;
+  /** Per-leg result text ("Win", "Loss", "Push"...) */
+  result?: string | null;
+}
+
+/**
+ * Work out the ticket type and teaser points from the book's bet type text.
+ * A ticket with several legs but no recognizable type is treated as a parlay.
+ */
+export function parseTicketType(
+  text: unknown,
+  legCount = 1
+): { ticketType: TicketType; teaserPoints: number | null } {
+  const t = typeof text === 'string' ? text.toLowerCase() : '';
+
+  if (/\bteaser/.test(t)) {
+    const points = t.match(/(\d+(?:\.5|½)?)\s*(?:pt|point)/);
+    return {
+      ticketType: 'teaser',
+      teaserPoints: points ? parseFloat(points[1].replace('½', '.5')) : null,
+    };
+  }
+  if (/round\s*-?\s*robin/.test(t)) return { ticketType: 'round-robin', teaserPoints: null };
+  if (/\bif\b.*\bbet\b|\bif\s*-?\s*(win|action)|\breverse\b/.test(t)) return { ticketType: 'if-bet', teaserPoints: null };
+  if (/\bparlay/.test(t) || legCount > 1) return { ticketType: 'parlay', teaserPoints: null };
+  return { ticketType: 'straight', teaserPoints: null };
+}
+
+/**
+ * Parse one leg's text.
+ * Odds are the trailing price, the line is the number right before it.
+ */
+export function parseLeg(leg: RawLeg): BetLeg {
+  const text = leg.text.replace(/\s+/g, ' ').trim();
+  const normalized = text.replace(/(\d)?½/g, (_m, d) => `${d ?? '0'}.5`);
+
+  // American odds at the end ("-110") or decimal odds after an @ ("@ 1.952")
+  const oddsMatch = normalized.match(/([+-]\d{3,})\s*\)?\s*$/) ?? normalized.match(/@\s*(\d+\.\d+)\s*$/);
+  const odds = toOdds(oddsMatch?.[1]);
+  const beforeOdds = oddsMatch ? normalized.slice(0, oddsMatch.index) : normalized;
+
+  const lineMatch = beforeOdds.match(/(?:^|\s|[ou])([+-]?\d+(?:\.\d+)?)\s*$/i);
+  const market = leg.market ?? inferMarket(normalized);
+  const line = lineMatch && market !== 'Moneyline' ? parseFloat(lineMatch[1]) : null;
+
+  return {
+    event: leg.event ?? parseEvent(text),
+    sport: leg.sport ?? null,
+    market,
+    selection: text,
+    line,
+    oddsAmerican: odds.american,
+    oddsDecimal: odds.decimal,
+    status: parseBetStatus(leg.result),
+  };
+}
+
+/** Pull "Team A vs Team B" / "Team A @ Team B" out of leg text, if present */
+export function parseEvent(text: string): string | null {
+  const match = text.match(
+    /([A-Za-z][A-Za-z .'&]*?)\s+(?:vs\.?|@|at)\s+([A-Za-z][A-Za-z .'&]*?)(?=\s+(?:[ou]?[+-]?\d|ml\b|over\b|under\b)|\s*[(|]|\s*$)/i
+  );
+  return match ? `${match[1].trim()} vs ${match[2].trim()}` : null;
+}
+
+/** Value shared by every leg, or null when legs differ (e.g. a cross-sport parlay) */
+export function commonValue<K extends keyof BetLeg>(legs: BetLeg[], key: K): BetLeg[K] | null {
+  if (legs.length === 0) return null;
+  const first = legs[0][key];
+  return legs.every((leg) => leg[key] === first) ? first : null;
+}
+
+/** Accept legs captured as plain strings or as RawLeg objects */
+export function toRawLegs(value: unknown): RawLeg[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((leg): RawLeg | null => {
+      if (typeof leg === 'string') return { text: leg };
+      if (leg && typeof leg === 'object' && typeof (leg as RawLeg).text === 'string') return leg as RawLeg;
+      return null;
+    })
+    .filter((leg): leg is RawLeg => leg !== null && leg.text.trim() !== '');
+}
+
+/**
+ * Legs for a ticket: the parsed raw legs, or for a straight bet a single leg
+ * mirroring the ticket (so per-leg reporting works the same for every bet).
+ */
+export function ticketLegs(
+  rawLegs: RawLeg[],
+  bet: Pick<NormalizedBet, 'event' | 'sport' | 'market' | 'selection' | 'oddsAmerican' | 'oddsDecimal' | 'status'>
+): BetLeg[] {
+  if (rawLegs.length > 0) return rawLegs.map(parseLeg);
+
+  const leg = parseLeg({ text: bet.selection, event: bet.event, sport: bet.sport, market: bet.market });
+  return [
+    {
+      ...leg,
+      oddsAmerican: leg.oddsAmerican ?? bet.oddsAmerican,
+      oddsDecimal: leg.oddsDecimal ?? bet.oddsDecimal,
+      status: bet.status,
+    },
+  ];
+}
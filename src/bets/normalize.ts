@@ -0,0 +1,49 @@
+import { parseMoney, parseBetStatus, profitFor, toOdds, oddsFromStake, toIso, inferMarket, round2, str } from './parse.js';
+import { parseTicketType, ticketLegs, toRawLegs, commonValue } from './legs.js';
+import type { NormalizedBet } from '../types/index.js';
+
+/**
+ * Generic mapper for rows from sites without a dedicated one.
+ * Looks for the common field names our scrapers use (betId, stake, toWin, status, winLoss).
+ */
+export function normalizeBet(siteId: string, raw: Record<string, unknown>): NormalizedBet {
+  const stake = parseMoney(raw.stake) ?? 0;
+  const toWin = parseMoney(raw.toWin ?? raw.potentialWin) ?? 0;
+  const settled = parseMoney(raw.winLoss ?? raw.result);
+  const status = parseBetStatus(raw.status, settled);
+  const odds = raw.odds !== undefined ? toOdds(raw.odds) : oddsFromStake(stake, toWin);
+  const rawLegs = toRawLegs(raw.legs);
+  const selection = str(raw, 'selection') ?? str(raw, 'description') ?? rawLegs.map((l) => l.text).join(' / ');
+  const { ticketType, teaserPoints } = parseTicketType(raw.ticketType ?? raw.betType, rawLegs.length);
+
+  const bet = {
+    event: str(raw, 'event'),
+    sport: str(raw, 'sport'),
+    market: str(raw, 'market') ?? inferMarket(selection) ?? str(raw, 'betType'),
+    selection,
+    oddsAmerican: odds.american,
+    oddsDecimal: odds.decimal,
+    status,
+  };
+  const legs = ticketLegs(rawLegs, bet);
+  const multiLeg = legs.length > 1;
+
+  return {
+    ...bet,
+    siteId,
+    betId: str(raw, 'betId'),
+    placedAt: toIso(raw.placedAt ?? raw.date),
+    settledAt: toIso(raw.settledAt),
+    sport: bet.sport ?? (multiLeg ? commonValue(legs, 'sport') : null),
+    league: str(raw, 'league'),
+    event: multiLeg ? commonValue(legs, 'event') : bet.event,
+    market: multiLeg ? commonValue(legs, 'market') : bet.market,
+    stake: round2(stake),
+    toWin: round2(toWin),
+    profit: status === 'pending' ? null : settled ?? profitFor(status, stake, toWin),
+    ticketType,
+    teaserPoints,
+    legs,
+    raw,
+  };
+}
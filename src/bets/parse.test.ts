@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import {
+  americanToDecimal,
+  decimalToAmerican,
+  oddsFromStake,
+  parseBetStatus,
+  parseMoney,
+  parseMoneyList,
+  profitFor,
+  toIso,
+  toOdds,
+} from './parse.js';
+import type { BetStatus } from '../types/index.js';
+
+describe('parseMoney', () => {
+  it.each([
+    ['$1,234.50', 1234.5],
+    ['USD 50', 50],
+    ['-110.00', -110],
+    ['- $25.00', -25],
+    ['(50.00)', -50],
+    ['($1,000)', -1000],
+    ['0.00', 0],
+    [42, 42],
+    ['Pending', null],
+    ['', null],
+    [undefined, null],
+    [NaN, null],
+  ])('%j -> %j', (input, expected) => {
+    expect(parseMoney(input)).toBe(expected);
+  });
+});
+
+describe('parseMoneyList', () => {
+  it.each([
+    ['110.00 / 100.00', [110, 100]],
+    ['$1,100.00 / $1,000.00', [1100, 1000]],
+    ['-50.00', [-50]],
+    [null, []],
+  ])('%j -> %j', (input, expected) => {
+    expect(parseMoneyList(input)).toEqual(expected);
+  });
+});
+
+describe('parseBetStatus', () => {
+  it.each<[unknown, BetStatus]>([
+    ['Won', 'won'],
+    ['WIN', 'won'],
+    ['Lost', 'lost'],
+    ['Loss', 'lost'],
+    ['Lose', 'lost'],
+    ['Push', 'push'],
+    ['Void', 'void'],
+    ['Cancelled', 'void'],
+    ['Refunded', 'void'],
+    ['No Action', 'void'],
+    ['Cashed Out', 'cashout'],
+    ['Cash Out', 'cashout'],
+    ['Pending', 'pending'],
+    ['Open', 'pending'],
+    ['Accepted', 'pending'],
+    [undefined, 'pending'],
+  ])('%j -> %s', (text, expected) => {
+    expect(parseBetStatus(text)).toBe(expected);
+  });
+
+  it.each<[unknown, number, BetStatus]>([
+    ['Settled', 90.91, 'won'],
+    ['Settled', -110, 'lost'],
+    ['Settled', 0, 'push'],
+    ['Graded', 12, 'won'],
+    ['Won', -5, 'won'],
+  ])('%j with amount %d -> %s', (text, amount, expected) => {
+    expect(parseBetStatus(text, amount)).toBe(expected);
+  });
+});
+
+describe('odds', () => {
+  it.each([
+    [-110, 1.909],
+    [-200, 1.5],
+    [100, 2],
+    [150, 2.5],
+    [250, 3.5],
+  ])('American %d <-> decimal %d', (american, decimal) => {
+    expect(americanToDecimal(american)).toBe(decimal);
+    expect(decimalToAmerican(decimal)).toBe(american);
+  });
+
+  it.each([-105, -115, -120, -150, -300, 110, 120, 175, 400])('American %d survives a round trip', (american) => {
+    expect(decimalToAmerican(americanToDecimal(american))).toBe(american);
+  });
+
+  it.each([
+    ['-110', { american: -110, decimal: 1.909 }],
+    ['+150', { american: 150, decimal: 2.5 }],
+    ['1.952', { american: -105, decimal: 1.952 }],
+    [2.5, { american: 150, decimal: 2.5 }],
+    ['0', { american: null, decimal: null }],
+    ['0.5', { american: null, decimal: null }],
+    ['EV', { american: null, decimal: null }],
+  ])('toOdds(%j)', (input, expected) => {
+    expect(toOdds(input)).toEqual(expected);
+  });
+
+  it('derives odds from stake and to-win', () => {
+    expect(oddsFromStake(110, 100)).toEqual({ american: -110, decimal: 1.909 });
+    expect(oddsFromStake(100, 150)).toEqual({ american: 150, decimal: 2.5 });
+    expect(oddsFromStake(0, 100)).toEqual({ american: null, decimal: null });
+  });
+});
+
+describe('profitFor', () => {
+  it.each<[BetStatus, number | null]>([
+    ['won', 100],
+    ['lost', -110],
+    ['push', 0],
+    ['void', 0],
+    ['pending', null],
+  ])('%s', (status, expected) => {
+    expect(profitFor(status, 110, 100)).toBe(expected);
+  });
+});
+
+describe('toIso', () => {
+  it.each([
+    [new Date('2024-12-05T14:30:00Z'), '2024-12-05T14:30:00.000Z'],
+    ['2024-12-05T14:30:00.000Z', '2024-12-05T14:30:00.000Z'],
+    ['not a date', null],
+    ['', null],
+    [new Date('nope'), null],
+    [null, null],
+  ])('%j -> %j', (input, expected) => {
+    expect(toIso(input)).toBe(expected);
+  });
+});
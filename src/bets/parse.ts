@@ -0,0 +1,129 @@
+import type { BetStatus } from '../types/index.js';
+
+/**
+ * Shared parsing helpers for turning scraped bet rows into NormalizedBet.
+ * Site workflows use these from their normalizeBet() mappers.
+ */
+
+/** Round to cents */
+export function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Parse a money/number string into a number.
+ * Handles "$1,234.50", "USD 50", "-110.00" and accounting negatives "(50.00)".
+ * Returns null when the text has no number in it (e.g. "Pending").
+ */
+export function parseMoney(value: unknown): number | null {
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+
+  const text = value.replace(/,/g, '');
+  const match = text.match(/(\()?\s*(-)?\s*\$?\s*(\d+(?:\.\d+)?)/);
+  if (!match) return null;
+
+  const amount = parseFloat(match[3]);
+  return match[1] || match[2] ? -amount : amount;
+}
+
+/** Parse every number in a string, e.g. "110.00 / 100.00" -> [110, 100] */
+export function parseMoneyList(value: unknown): number[] {
+  if (typeof value !== 'string') return [];
+  return (value.replace(/,/g, '').match(/-?\d+(?:\.\d+)?/g) ?? []).map(Number);
+}
+
+/** Convert American odds to decimal (-110 -> 1.909, +150 -> 2.5) */
+export function americanToDecimal(american: number): number {
+  const decimal = american < 0 ? 1 + 100 / -american : 1 + american / 100;
+  return Math.round(decimal * 1000) / 1000;
+}
+
+/** Convert decimal odds to American (1.909 -> -110, 2.5 -> 150) */
+export function decimalToAmerican(decimal: number): number {
+  if (decimal <= 1) return 0;
+  return decimal >= 2 ? Math.round((decimal - 1) * 100) : Math.round(-100 / (decimal - 1));
+}
+
+/**
+ * Work out both odds formats from whatever the site shows.
+ * Values of magnitude >= 100 are taken as American, anything else as decimal.
+ */
+export function toOdds(value: unknown): { american: number | null; decimal: number | null } {
+  const odds = parseMoney(value);
+  if (odds === null || odds === 0) return { american: null, decimal: null };
+  if (Math.abs(odds) >= 100) return { american: odds, decimal: americanToDecimal(odds) };
+  if (odds > 1) return { american: decimalToAmerican(odds), decimal: odds };
+  return { american: null, decimal: null };
+}
+
+/** Derive odds from a stake and its to-win amount (risk 110 to win 100 -> -110) */
+export function oddsFromStake(stake: number, toWin: number): { american: number | null; decimal: number | null } {
+  if (stake <= 0 || toWin <= 0) return { american: null, decimal: null };
+  const decimal = Math.round((1 + toWin / stake) * 1000) / 1000;
+  return { american: decimalToAmerican(decimal), decimal };
+}
+
+/** Every status a NormalizedBet can have */
+export const BET_STATUSES: BetStatus[] = ['pending', 'won', 'lost', 'push', 'void', 'cashout'];
+
+/**
+ * Map free-form status text onto BetStatus.
+ * Falls back to the sign of the settled amount when the text is not conclusive.
+ */
+export function parseBetStatus(text: unknown, settledAmount?: number | null): BetStatus {
+  const t = typeof text === 'string' ? text.toLowerCase() : '';
+  if (t.includes('cash')) return 'cashout';
+  if (/\bpush\b/.test(t)) return 'push';
+  if (/void|cancel|refund|no action/.test(t)) return 'void';
+  if (/\bwin\b|\bwon\b/.test(t)) return 'won';
+  if (/\blos[st]\b|\blose\b/.test(t)) return 'lost';
+  if (/pending|open|accepted/.test(t)) return 'pending';
+
+  if (settledAmount !== undefined && settledAmount !== null) {
+    if (settledAmount > 0) return 'won';
+    if (settledAmount < 0) return 'lost';
+    return 'push';
+  }
+  return 'pending';
+}
+
+/** Profit for a settled bet given its status, or null while pending */
+export function profitFor(status: BetStatus, stake: number, toWin: number): number | null {
+  switch (status) {
+    case 'won':
+      return round2(toWin);
+    case 'lost':
+      return round2(-stake);
+    case 'push':
+    case 'void':
+      return 0;
+    default:
+      return null;
+  }
+}
+
+/** Convert a Date or date string to ISO, or null if it cannot be parsed */
+export function toIso(value: unknown): string | null {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value.toISOString();
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/** Best-guess market from selection text ("o215.5" -> Total, "ML" -> Moneyline) */
+export function inferMarket(selection: string): string | null {
+  const s = selection.toLowerCase();
+  if (/\b(over|under)\b|\b[ou]\s?\d+(\.\d+)?\b/.test(s)) return 'Total';
+  if (/\bml\b|money\s?line/.test(s)) return 'Moneyline';
+  if (/[+-]\d+(\.5)?\s*(\(|[+-]\d{3})/.test(s) || /\bspread\b|\bhandicap\b/.test(s)) return 'Spread';
+  return null;
+}
+
+/** Read a string field from a raw row */
+export function str(raw: Record<string, unknown>, key: string): string | null {
+  const value = raw[key];
+  if (value === undefined || value === null) return null;
+  const text = String(value).trim();
+  return text || null;
+}
@@ -0,0 +1,64 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { BrowserContext } from 'playwright';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ExitIpGuard } from './ExitIpGuard.js';
+
+const LOOKUP = JSON.stringify({ ip: '203.0.113.7', country: 'CA', region: 'Ontario' });
+
+function fakeResponse(body: string) {
+  return { ok: () => true, status: () => 200, text: async () => body };
+}
+
+/** A context whose request API sees one IP and whose tabs see another */
+function fakeContext() {
+  const page = {
+    goto: vi.fn(async () => fakeResponse(LOOKUP)),
+    close: vi.fn(async () => {}),
+  };
+  const context = {
+    request: { get: vi.fn(async () => fakeResponse(JSON.stringify({ ip: '198.51.100.1' }))) },
+    newPage: vi.fn(async () => page),
+  };
+  return { context, page };
+}
+
+describe('ExitIpGuard', () => {
+  let dir: string;
+  let guard: ExitIpGuard;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'bb-exit-ip-'));
+    guard = new ExitIpGuard(join(dir, 'exit-ips.json'), 'https://ip.example/json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('looks up a launched browser through its context', async () => {
+    const { context } = fakeContext();
+    const record = await guard.check({ id: 'site', name: 'Site', baseUrl: 'https://book.example' }, context as unknown as BrowserContext);
+
+    expect(record).toMatchObject({ ip: '198.51.100.1', action: 'ok' });
+    expect(context.newPage).not.toHaveBeenCalled();
+  });
+
+  it('looks up an attached browser through a tab, then closes it', async () => {
+    const { context, page } = fakeContext();
+    const site = {
+      id: 'site',
+      name: 'Site',
+      baseUrl: 'https://book.example',
+      cdpUrl: 'http://127.0.0.1:9222',
+      ipPin: { country: 'CA', onDrift: 'refuse' as const },
+    };
+    const record = await guard.check(site, context as unknown as BrowserContext);
+
+    expect(record).toMatchObject({ ip: '203.0.113.7', country: 'CA', action: 'ok' });
+    expect(context.request.get).not.toHaveBeenCalled();
+    expect(page.goto).toHaveBeenCalledWith('https://ip.example/json', expect.anything());
+    expect(page.close).toHaveBeenCalled();
+  });
+});
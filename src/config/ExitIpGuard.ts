@@ -0,0 +1,153 @@
+import type { BrowserContext } from 'playwright';
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import { existsSync } from 'fs';
+import { dirname } from 'path';
+import { DEFAULT_IP_LOOKUP_URL, parseIpLookup } from './ProxyChecker.js';
+import type { SiteConfig, ExitIpRecord } from '../types/index.js';
+
+const DEFAULT_HISTORY_FILE = './config/exit-ips.json';
+const LOOKUP_TIMEOUT_MS = 15_000;
+/** Logins kept per site */
+const MAX_RECORDS_PER_SITE = 100;
+
+/**
+ * Looks up the IP a browser actually exits from before a login, compares it
+ * with the site's ipPin, and keeps a per-site history of what it saw.
+ */
+export class ExitIpGuard {
+  /** IP-lookup endpoint (default: $IP_LOOKUP_URL, then ipinfo.io); the API server sets its own */
+  lookupUrl: string;
+  private historyFile: string;
+  private history: Map<string, ExitIpRecord[]> | null = null;
+  /** Serializes history writes */
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(historyFile?: string, lookupUrl?: string) {
+    this.historyFile = historyFile ?? DEFAULT_HISTORY_FILE;
+    this.lookupUrl = lookupUrl ?? process.env.IP_LOOKUP_URL ?? DEFAULT_IP_LOOKUP_URL;
+  }
+
+  /**
+   * Look up and record the exit IP for a login. The request goes out through
+   * the browser, so it uses the same proxy the login will.
+   */
+  async check(site: SiteConfig, context: BrowserContext): Promise<ExitIpRecord> {
+    const record: ExitIpRecord = { siteId: site.id, at: new Date().toISOString(), action: 'ok' };
+
+    try {
+      const { exitIp, ...location } = parseIpLookup(await this.lookup(site, context));
+      Object.assign(record, { ip: exitIp, ...location });
+      if (!record.ip) {
+        throw new Error('IP lookup response did not contain an IP');
+      }
+    } catch (err) {
+      record.error = (err as Error).message;
+    }
+
+    const pin = site.ipPin;
+    if (pin) {
+      record.drift = await this.findDrift(site, record);
+      if (record.drift) {
+        record.action = pin.onDrift === 'refuse' ? 'refused' : 'warned';
+      }
+    }
+
+    await this.append(record);
+    return record;
+  }
+
+  /** Fetch the IP-lookup response body as the browser sees it */
+  private async lookup(site: SiteConfig, context: BrowserContext): Promise<string> {
+    if (!site.cdpUrl) {
+      // A launched context's request API is configured with the browser's proxy
+      const response = await context.request.get(this.lookupUrl, { timeout: LOOKUP_TIMEOUT_MS });
+      if (!response.ok()) {
+        throw new Error(`IP lookup returned HTTP ${response.status()}`);
+      }
+      return await response.text();
+    }
+
+    // An attached Chrome's proxy is unknown to Playwright, so context.request
+    // would report this machine's IP. Load the lookup in a tab of its own instead.
+    const page = await context.newPage();
+    try {
+      const response = await page.goto(this.lookupUrl, { timeout: LOOKUP_TIMEOUT_MS });
+      if (!response?.ok()) {
+        throw new Error(`IP lookup returned HTTP ${response?.status() ?? 'no response'}`);
+      }
+      return await response.text();
+    } finally {
+      await page.close().catch(() => {});
+    }
+  }
+
+  /** Logins recorded for a site, newest first */
+  async list(siteId: string): Promise<ExitIpRecord[]> {
+    const history = await this.load();
+    return [...(history.get(siteId) ?? [])].reverse();
+  }
+
+  /** Why the record does not match the site's pin, or undefined when it does */
+  private async findDrift(site: SiteConfig, record: ExitIpRecord): Promise<string | undefined> {
+    const pin = site.ipPin!;
+    if (record.error) {
+      return `Could not verify exit IP: ${record.error}`;
+    }
+
+    const pinnedIp = pin.ip ?? (pin.sticky ? await this.firstIp(site.id) : undefined);
+    if (pinnedIp && record.ip !== pinnedIp) {
+      return `Exit IP ${record.ip} differs from pinned ${pinnedIp}`;
+    }
+    if (pin.country && pin.country.toLowerCase() !== record.country?.toLowerCase()) {
+      return `Exit country ${record.country ?? 'unknown'} differs from pinned ${pin.country}`;
+    }
+    if (pin.region && pin.region.toLowerCase() !== record.region?.toLowerCase()) {
+      return `Exit region ${record.region ?? 'unknown'} differs from pinned ${pin.region}`;
+    }
+    return undefined;
+  }
+
+  /** IP of the earliest successful login on record, for sticky pins */
+  private async firstIp(siteId: string): Promise<string | undefined> {
+    const history = await this.load();
+    return history.get(siteId)?.find((record) => record.ip && record.action !== 'refused')?.ip;
+  }
+
+  private async load(): Promise<Map<string, ExitIpRecord[]>> {
+    if (this.history) return this.history;
+
+    this.history = new Map();
+    if (existsSync(this.historyFile)) {
+      try {
+        const records = JSON.parse(await readFile(this.historyFile, 'utf-8')) as ExitIpRecord[];
+        for (const record of records) {
+          const list = this.history.get(record.siteId) ?? [];
+          list.push(record);
+          this.history.set(record.siteId, list);
+        }
+      } catch (err) {
+        console.error('Failed to load exit IP history:', err);
+      }
+    }
+    return this.history;
+  }
+
+  private async append(record: ExitIpRecord): Promise<void> {
+    const history = await this.load();
+    const list = history.get(record.siteId) ?? [];
+    list.push(record);
+    // Keep the first record - a sticky pin is taken from it
+    if (list.length > MAX_RECORDS_PER_SITE) {
+      list.splice(1, list.length - MAX_RECORDS_PER_SITE);
+    }
+    history.set(record.siteId, list);
+
+    const write = this.writing.then(async () => {
+      await mkdir(dirname(this.historyFile), { recursive: true });
+      const all = Array.from(history.values()).flat();
+      await writeFile(this.historyFile, JSON.stringify(all, null, 2), 'utf-8');
+    });
+    this.writing = write.catch(() => {});
+    await write;
+  }
+}
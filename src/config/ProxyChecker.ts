@@ -0,0 +1,232 @@
+import http from 'http';
+import https from 'https';
+import tls from 'tls';
+import type { Socket } from 'net';
+import { connectSocks5 } from '../core/SocksRelay.js';
+import { normalizeProxy } from '../core/proxyUrl.js';
+import type { ProxyConfig, ProxyHealth } from '../types/index.js';
+
+/**
+ * Where the exit IP is looked up. Anything that answers with the caller's IP
+ * works: a plain-text body, or JSON with ip/query/origin (and optionally
+ * country/region/city), e.g. a local stand-in during development.
+ */
+export const DEFAULT_IP_LOOKUP_URL = 'https://ipinfo.io/json';
+const DEFAULT_TIMEOUT_MS = 15_000;
+
+export interface ProxyCheckerOptions {
+  /** IP-lookup endpoint (default: $IP_LOOKUP_URL, then ipinfo.io) */
+  lookupUrl?: string;
+  /** Give up on a proxy after this long (default: 15s) */
+  timeoutMs?: number;
+}
+
+/**
+ * Checks that a proxy is reachable, accepts its credentials, and forwards
+ * traffic, by fetching an IP-lookup endpoint through it.
+ * Speaks to the proxy directly over HTTP(S) or SOCKS5, so no browser is needed.
+ */
+export class ProxyChecker {
+  readonly lookupUrl: string;
+  private timeoutMs: number;
+
+  constructor(options: ProxyCheckerOptions = {}) {
+    this.lookupUrl = options.lookupUrl ?? process.env.IP_LOOKUP_URL ?? DEFAULT_IP_LOOKUP_URL;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  /** Check one proxy; failures are reported in the result rather than thrown */
+  async check(proxy: ProxyConfig): Promise<ProxyHealth> {
+    const checkedAt = new Date().toISOString();
+    const started = Date.now();
+    const health: ProxyHealth = { ok: false, checkedAt, lookupUrl: this.lookupUrl };
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      proxy = normalizeProxy(proxy);
+      const proxyUrl = new URL(proxy.server);
+      if (proxyUrl.protocol === 'socks4:') {
+        throw new Error('Cannot check socks4 proxies');
+      }
+
+      const { status, body, connectMs } =
+        proxyUrl.protocol === 'socks5:'
+          ? await this.fetchThroughSocks(proxy, controller.signal)
+          : await this.fetchThrough(proxyUrl, proxy, controller.signal);
+      health.latencyMs = connectMs;
+      health.totalMs = Date.now() - started;
+
+      if (status === 407) {
+        health.authOk = false;
+        throw new Error(
+          proxy.username ? 'Proxy rejected the credentials (407)' : 'Proxy requires credentials (407)'
+        );
+      }
+      health.authOk = proxy.username ? true : undefined;
+      if (status < 200 || status >= 300) {
+        throw new Error(`IP lookup returned HTTP ${status}`);
+      }
+
+      Object.assign(health, parseIpLookup(body));
+      if (!health.exitIp) {
+        throw new Error('IP lookup response did not contain an IP');
+      }
+      health.ok = true;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ERR_SOCKS_AUTH') {
+        health.authOk = false;
+      }
+      health.error = controller.signal.aborted ? `No response within ${this.timeoutMs}ms` : (err as Error).message;
+    } finally {
+      clearTimeout(timer);
+    }
+
+    return health;
+  }
+
+  /** GET the lookup URL through the proxy, tunnelling with CONNECT for https targets */
+  private fetchThrough(
+    proxyUrl: URL,
+    proxy: ProxyConfig,
+    signal: AbortSignal
+  ): Promise<{ status: number; body: string; connectMs: number }> {
+    const target = new URL(this.lookupUrl);
+    const proxyModule = proxyUrl.protocol === 'https:' ? https : http;
+    const proxyPort = Number(proxyUrl.port) || (proxyUrl.protocol === 'https:' ? 443 : 80);
+    const auth: Record<string, string> = proxy.username
+      ? {
+          'Proxy-Authorization': `Basic ${Buffer.from(`${proxy.username}:${proxy.password ?? ''}`).toString('base64')}`,
+        }
+      : {};
+
+    return new Promise((resolve, reject) => {
+      const started = Date.now();
+      let connectMs = 0;
+      const onSocket = (socket: Socket) => {
+        const event = proxyUrl.protocol === 'https:' ? 'secureConnect' : 'connect';
+        socket.once(event, () => {
+          connectMs = Date.now() - started;
+        });
+      };
+
+      if (target.protocol === 'http:') {
+        // Plain HTTP goes straight through the proxy with an absolute URL
+        const req = proxyModule.request({
+          host: proxyUrl.hostname,
+          port: proxyPort,
+          method: 'GET',
+          path: target.href,
+          headers: { Host: target.host, Accept: 'application/json, text/plain', ...auth },
+          agent: false,
+          signal,
+        });
+        req.once('socket', onSocket);
+        req.once('response', (res) => {
+          readBody(res).then((body) => resolve({ status: res.statusCode ?? 0, body, connectMs }), reject);
+        });
+        req.once('error', reject);
+        req.end();
+        return;
+      }
+
+      const targetPort = Number(target.port) || 443;
+      const connect = proxyModule.request({
+        host: proxyUrl.hostname,
+        port: proxyPort,
+        method: 'CONNECT',
+        path: `${target.hostname}:${targetPort}`,
+        headers: { Host: `${target.hostname}:${targetPort}`, ...auth },
+        agent: false,
+        signal,
+      });
+      connect.once('socket', onSocket);
+      connect.once('error', reject);
+      connect.once('connect', (res, socket) => {
+        // A proxy that refuses the tunnel (e.g. 407) still answers here
+        if (res.statusCode !== 200) {
+          socket.destroy();
+          resolve({ status: res.statusCode ?? 0, body: '', connectMs });
+          return;
+        }
+
+        const req = https.request({
+          host: target.hostname,
+          port: targetPort,
+          path: `${target.pathname}${target.search}`,
+          headers: { Accept: 'application/json, text/plain' },
+          agent: false,
+          signal,
+          createConnection: () => tls.connect({ socket, servername: target.hostname }),
+        });
+        req.once('response', (lookup) => {
+          readBody(lookup).then((body) => resolve({ status: lookup.statusCode ?? 0, body, connectMs }), reject);
+        });
+        req.once('error', reject);
+        req.end();
+      });
+      connect.end();
+    });
+  }
+
+  /** GET the lookup URL over a tunnel opened by a SOCKS5 proxy (latency includes its handshake) */
+  private async fetchThroughSocks(
+    proxy: ProxyConfig,
+    signal: AbortSignal
+  ): Promise<{ status: number; body: string; connectMs: number }> {
+    const target = new URL(this.lookupUrl);
+    const secure = target.protocol === 'https:';
+    const targetPort = Number(target.port) || (secure ? 443 : 80);
+
+    const started = Date.now();
+    const socket = await connectSocks5(proxy, target.hostname, targetPort, signal);
+    const connectMs = Date.now() - started;
+
+    return new Promise<{ status: number; body: string; connectMs: number }>((resolve, reject) => {
+      const req = (secure ? https : http).request({
+        host: target.hostname,
+        port: targetPort,
+        path: `${target.pathname}${target.search}`,
+        headers: { Accept: 'application/json, text/plain' },
+        agent: false,
+        signal,
+        createConnection: () => (secure ? tls.connect({ socket, servername: target.hostname }) : socket),
+      });
+      req.once('response', (lookup) => {
+        readBody(lookup).then((body) => resolve({ status: lookup.statusCode ?? 0, body, connectMs }), reject);
+      });
+      req.once('error', reject);
+      req.end();
+    }).finally(() => socket.destroy());
+  }
+}
+
+/** Pull the IP and location out of an IP-lookup response */
+export function parseIpLookup(body: string): Pick<ProxyHealth, 'exitIp' | 'country' | 'region' | 'city'> {
+  const text = body.trim();
+  try {
+    const json = JSON.parse(text) as Record<string, unknown>;
+    const str = (...keys: string[]) => {
+      const value = keys.map((key) => json[key]).find((v) => typeof v === 'string' && v);
+      return value as string | undefined;
+    };
+    return {
+      // ipinfo/ipify use "ip", ip-api "query", httpbin "origin"
+      exitIp: str('ip', 'query', 'origin')?.split(',')[0].trim(),
+      country: str('country_code', 'countryCode', 'country'),
+      region: str('region', 'regionName'),
+      city: str('city'),
+    };
+  } catch {
+    return { exitIp: /^[0-9a-fA-F.:]+$/.test(text) ? text : undefined };
+  }
+}
+
+function readBody(res: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    res.on('data', (chunk: Buffer) => chunks.push(chunk));
+    res.once('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    res.once('error', reject);
+  });
+}
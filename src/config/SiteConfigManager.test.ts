@@ -0,0 +1,72 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { SiteConfigManager } from './SiteConfigManager.js';
+import { WorkflowManager } from '../workflows/WorkflowManager.js';
+import { PinnacleWorkflow } from '../workflows/PinnacleWorkflow.js';
+import type { ProxyHealth } from '../types/index.js';
+
+const names = (proxies: Array<{ name: string }> | undefined) => proxies?.map((proxy) => proxy.name);
+
+function health(ok: boolean): ProxyHealth {
+  return { ok, checkedAt: new Date().toISOString(), lookupUrl: 'https://ip.example/json' };
+}
+
+describe('SiteConfigManager proxy pools', () => {
+  let dir: string;
+  let configs: SiteConfigManager;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'bb-config-'));
+    configs = new SiteConfigManager(join(dir, 'sites.json'), join(dir, 'proxies.json'), join(dir, 'pools.json'));
+    for (const name of ['a', 'b', 'c']) {
+      await configs.addProxy({ name, server: `http://${name}.proxy.example:8080` });
+    }
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('starts a round-robin pool one member further along on each launch', async () => {
+    await configs.addPool({ name: 'rr', members: ['a', 'b', 'c'], strategy: 'round-robin' });
+    const pool = configs.resolvePool('rr')!;
+
+    expect(names(pool.launchOrder!())).toEqual(['a', 'b', 'c']);
+    expect(names(configs.launchOrder('rr', false))).toEqual(['b', 'c', 'a']);
+    expect(names(pool.launchOrder!())).toEqual(['b', 'c', 'a']);
+    // Shared by every site resolving the same pool
+    expect(names(configs.resolvePool('rr')!.launchOrder!())).toEqual(['c', 'a', 'b']);
+
+    // Re-saving the pool starts over from its primary
+    await configs.addPool({ name: 'rr', members: ['c', 'b'], strategy: 'round-robin' });
+    expect(names(configs.launchOrder('rr'))).toEqual(['c', 'b']);
+  });
+
+  it('tries members that failed their last check last, without changing the resolved config', async () => {
+    await configs.addPool({ name: 'fo', members: ['a', 'b', 'c'], strategy: 'failover' });
+    const before = JSON.stringify(configs.resolvePool('fo'));
+
+    await configs.recordProxyHealth('a', health(false));
+    await configs.recordProxyHealth('b', health(true));
+
+    expect(names(configs.launchOrder('fo'))).toEqual(['b', 'c', 'a']);
+    expect(JSON.stringify(configs.resolvePool('fo'))).toBe(before);
+  });
+
+  it('keeps a site workflow across health checks', async () => {
+    await configs.addPool({ name: 'fo', members: ['a', 'b'], strategy: 'failover' });
+    const workflows = new WorkflowManager();
+    workflows.register('pinnacle', PinnacleWorkflow);
+    const register = () =>
+      workflows.addSite({ id: 'pinnacle', name: 'Pinnacle', baseUrl: 'https://book.example', proxyPool: configs.resolvePool('fo') });
+
+    register();
+    const workflow = await workflows.getWorkflow('pinnacle');
+    await configs.recordProxyHealth('a', health(false));
+    register();
+
+    expect(await workflows.getWorkflow('pinnacle')).toBe(workflow);
+  });
+});
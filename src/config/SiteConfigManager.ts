@@ -1,14 +1,19 @@
 import { readFile, writeFile, mkdir } from 'fs/promises';
 import { existsSync } from 'fs';
-import type { SiteConfig, ProxyConfig } from '../types/index.js';
+import type { SiteConfig, ProxyConfig, ProxyHealth, ProxyPoolStrategy, ResolvedProxyPool } from '../types/index.js';
 
 const DEFAULT_SITES_FILE = './config/sites.json';
 const DEFAULT_PROXIES_FILE = './config/proxies.json';
+const DEFAULT_POOLS_FILE = './config/proxy-pools.json';
+/** Health checks kept per proxy */
+const MAX_HEALTH_RECORDS = 20;
 
 export interface StoredSiteConfig extends SiteConfig {
   username?: string;
   password?: string;
   proxyName?: string;
+  /** Proxy pool to use instead of proxyName */
+  proxyPoolName?: string;
   workflowImplemented?: boolean;
   createdAt?: string;
 }
@@ -18,23 +23,46 @@ export interface StoredProxy {
   server: string;
   username?: string;
   password?: string;
+  /** Hosts to reach directly rather than through the proxy (e.g., ["localhost", "*.internal.com"]) */
+  bypass?: string[];
+  /** Free-form labels, e.g. "residential" or "us-east" */
+  tags?: string[];
+  /** Who sells or runs the proxy */
+  provider?: string;
+  notes?: string;
+  /** Recent health checks, newest first */
+  health?: ProxyHealth[];
+}
+
+/** A named, ordered group of saved proxies */
+export interface StoredProxyPool {
+  name: string;
+  /** Proxy names, primary first */
+  members: string[];
+  strategy: ProxyPoolStrategy;
 }
 
 export class SiteConfigManager {
   private sitesFile: string;
   private proxiesFile: string;
+  private poolsFile: string;
   private sites: Map<string, StoredSiteConfig> = new Map();
   private proxies: Map<string, StoredProxy> = new Map();
+  private pools: Map<string, StoredProxyPool> = new Map();
+  /** Next starting member per round-robin pool, shared by every site using the pool */
+  private rotation: Map<string, number> = new Map();
 
-  constructor(sitesFile?: string, proxiesFile?: string) {
+  constructor(sitesFile?: string, proxiesFile?: string, poolsFile?: string) {
     this.sitesFile = sitesFile ?? DEFAULT_SITES_FILE;
     this.proxiesFile = proxiesFile ?? DEFAULT_PROXIES_FILE;
+    this.poolsFile = poolsFile ?? DEFAULT_POOLS_FILE;
   }
 
   /** Load all configs from disk */
   async load(): Promise<void> {
     await this.loadSites();
     await this.loadProxies();
+    await this.loadPools();
   }
 
   private async loadSites(): Promise<void> {
@@ -67,6 +95,21 @@ export class SiteConfigManager {
     }
   }
 
+  private async loadPools(): Promise<void> {
+    if (!existsSync(this.poolsFile)) return;
+    try {
+      const data = await readFile(this.poolsFile, 'utf-8');
+      const pools = JSON.parse(data) as StoredProxyPool[];
+      this.pools.clear();
+      for (const pool of pools) {
+        this.pools.set(pool.name, pool);
+      }
+      console.log(`📂 Loaded ${pools.length} proxy pools`);
+    } catch (err) {
+      console.error('Failed to load proxy pools:', err);
+    }
+  }
+
   private async ensureDir(file: string): Promise<void> {
     const dir = file.substring(0, file.lastIndexOf('/'));
     if (dir && !existsSync(dir)) {
@@ -86,6 +129,12 @@ export class SiteConfigManager {
     await writeFile(this.proxiesFile, JSON.stringify(proxies, null, 2), 'utf-8');
   }
 
+  async savePools(): Promise<void> {
+    await this.ensureDir(this.poolsFile);
+    const pools = Array.from(this.pools.values());
+    await writeFile(this.poolsFile, JSON.stringify(pools, null, 2), 'utf-8');
+  }
+
   // Sites
   async addSite(site: StoredSiteConfig): Promise<void> {
     this.sites.set(site.id, {
@@ -120,10 +169,25 @@ export class SiteConfigManager {
 
   // Proxies
   async addProxy(proxy: StoredProxy): Promise<void> {
-    this.proxies.set(proxy.name, proxy);
+    this.putProxy(proxy);
+    await this.saveProxies();
+  }
+
+  /** Add or replace many proxies with a single write */
+  async addProxies(proxies: StoredProxy[]): Promise<void> {
+    for (const proxy of proxies) {
+      this.putProxy(proxy);
+    }
     await this.saveProxies();
   }
 
+  private putProxy(proxy: StoredProxy): void {
+    // Keep the check history when an entry is re-saved for the same server
+    const existing = this.proxies.get(proxy.name);
+    const health = proxy.health ?? (existing?.server === proxy.server ? existing.health : undefined);
+    this.proxies.set(proxy.name, { ...proxy, health });
+  }
+
   getProxy(name: string): StoredProxy | undefined {
     return this.proxies.get(name);
   }
@@ -138,6 +202,102 @@ export class SiteConfigManager {
     return deleted;
   }
 
+  /** Record a health check result, keeping the most recent ones */
+  async recordProxyHealth(name: string, health: ProxyHealth): Promise<StoredProxy | null> {
+    const proxy = this.proxies.get(name);
+    if (!proxy) return null;
+    proxy.health = [health, ...(proxy.health ?? [])].slice(0, MAX_HEALTH_RECORDS);
+    await this.saveProxies();
+    return proxy;
+  }
+
+  // Proxy pools
+  async addPool(pool: StoredProxyPool): Promise<void> {
+    const missing = pool.members.filter((name) => !this.proxies.has(name));
+    if (missing.length) {
+      throw new Error(`Unknown proxies in pool "${pool.name}": ${missing.join(', ')}`);
+    }
+    this.pools.set(pool.name, pool);
+    // Members may have changed - start the rotation from the primary again
+    this.rotation.delete(pool.name);
+    await this.savePools();
+  }
+
+  getPool(name: string): StoredProxyPool | undefined {
+    return this.pools.get(name);
+  }
+
+  listPools(): StoredProxyPool[] {
+    return Array.from(this.pools.values());
+  }
+
+  async deletePool(name: string): Promise<boolean> {
+    const deleted = this.pools.delete(name);
+    this.rotation.delete(name);
+    if (deleted) await this.savePools();
+    return deleted;
+  }
+
+  /**
+   * A pool with its members looked up, primary first. Health is left to
+   * launchOrder, so a health check does not change the resolved config.
+   */
+  resolvePool(name: string): ResolvedProxyPool | undefined {
+    const pool = this.pools.get(name);
+    if (!pool) return undefined;
+
+    return {
+      name: pool.name,
+      strategy: pool.strategy,
+      proxies: this.poolMembers(pool).map((proxy) => this.toProxyConfig(proxy)),
+      launchOrder: () => this.launchOrder(name) ?? [],
+    };
+  }
+
+  /**
+   * A pool's members in the order a launch should try them. Members whose
+   * last health check failed are moved to the back so they are tried last;
+   * a round-robin pool then starts one member further along than last time.
+   * Pass advance: false to preview the order without moving the rotation.
+   */
+  launchOrder(name: string, advance = true): Array<ProxyConfig & { name: string }> | undefined {
+    const pool = this.pools.get(name);
+    if (!pool) return undefined;
+
+    const members = this.poolMembers(pool);
+    const unhealthy = (proxy: StoredProxy) => proxy.health?.[0]?.ok === false;
+    const ordered = [...members.filter((proxy) => !unhealthy(proxy)), ...members.filter(unhealthy)].map((proxy) =>
+      this.toProxyConfig(proxy)
+    );
+    if (pool.strategy !== 'round-robin' || ordered.length === 0) return ordered;
+
+    const start = (this.rotation.get(name) ?? 0) % ordered.length;
+    if (advance) this.rotation.set(name, start + 1);
+    return [...ordered.slice(start), ...ordered.slice(0, start)];
+  }
+
+  private poolMembers(pool: StoredProxyPool): StoredProxy[] {
+    return pool.members
+      .map((member) => this.proxies.get(member))
+      .filter((proxy): proxy is StoredProxy => proxy !== undefined);
+  }
+
+  private toProxyConfig(proxy: StoredProxy): ProxyConfig & { name: string } {
+    return {
+      name: proxy.name,
+      server: proxy.server,
+      username: proxy.username,
+      password: proxy.password,
+      bypass: proxy.bypass,
+    };
+  }
+
+  /** Get the proxy pool for a site, if it uses one */
+  getProxyPoolForSite(siteId: string): ResolvedProxyPool | undefined {
+    const site = this.sites.get(siteId);
+    return site?.proxyPoolName ? this.resolvePool(site.proxyPoolName) : undefined;
+  }
+
   /** Get proxy config for a site */
   getProxyForSite(siteId: string): ProxyConfig | undefined {
     const site = this.sites.get(siteId);
@@ -148,6 +308,7 @@ export class SiteConfigManager {
       server: proxy.server,
       username: proxy.username,
       password: proxy.password,
+      bypass: proxy.bypass,
     };
   }
 }
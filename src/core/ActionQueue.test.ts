@@ -0,0 +1,111 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ActionQueue } from './ActionQueue.js';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('ActionQueue', () => {
+  it('runs actions one at a time, in order', async () => {
+    const queue = new ActionQueue();
+    const order: string[] = [];
+    const action = (label: string, ms: number) => async () => {
+      order.push(`start ${label}`);
+      await sleep(ms);
+      order.push(`end ${label}`);
+      return label;
+    };
+
+    const results = await Promise.all([queue.enqueue('a', action('a', 20)), queue.enqueue('b', action('b', 0))]);
+
+    expect(results).toEqual(['a', 'b']);
+    expect(order).toEqual(['start a', 'end a', 'start b', 'end b']);
+  });
+
+  it('rejects a timed-out action, aborts its signal and waits for it to stop', async () => {
+    const queue = new ActionQueue({ graceMs: 1000 });
+    let signal: AbortSignal | undefined;
+    let stopped = false;
+    const slow = queue.enqueue(
+      'slow',
+      async (s) => {
+        signal = s;
+        await sleep(60);
+        stopped = true;
+      },
+      { timeoutMs: 20 }
+    );
+    const next = queue.enqueue('next', async () => stopped);
+
+    await expect(slow).rejects.toThrow('Action "slow" timed out after 20ms');
+    expect(signal?.aborted).toBe(true);
+    // The next action did not start until the abandoned one had settled
+    await expect(next).resolves.toBe(true);
+  });
+
+  it('moves on and reports the action once the grace period runs out', async () => {
+    const onStuck = vi.fn();
+    const queue = new ActionQueue({ graceMs: 30, onStuck });
+    const hung = queue.enqueue('hung', () => new Promise(() => {}), { timeoutMs: 10 });
+    const next = queue.enqueue('next', async () => 'ran');
+
+    await expect(hung).rejects.toThrow('timed out');
+    await expect(next).resolves.toBe('ran');
+    expect(onStuck).toHaveBeenCalledTimes(1);
+    expect(onStuck.mock.calls[0][0]).toMatchObject({ label: 'hung' });
+  });
+
+  it('does not report an action that stops within the grace period', async () => {
+    const onStuck = vi.fn();
+    const queue = new ActionQueue({ graceMs: 200, onStuck });
+    const slow = queue.enqueue('slow', () => sleep(40), { timeoutMs: 10 });
+
+    await expect(slow).rejects.toThrow('timed out');
+    await queue.enqueue('next', async () => {});
+    expect(onStuck).not.toHaveBeenCalled();
+  });
+
+  it('fails the running action on request', async () => {
+    const queue = new ActionQueue();
+    expect(queue.failActive(new Error('nothing running'))).toBe(false);
+
+    let signal: AbortSignal | undefined;
+    const running = queue.enqueue('dialog', async (s) => {
+      signal = s;
+      await new Promise((resolve) => s.addEventListener('abort', resolve));
+    });
+    await sleep(0);
+
+    expect(queue.active).toMatchObject({ label: 'dialog' });
+    expect(queue.failActive(new Error('Unexpected dialog'))).toBe(true);
+    await expect(running).rejects.toThrow('Unexpected dialog');
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('starts the next action right away when the failed one is released', async () => {
+    const queue = new ActionQueue({ graceMs: 1000 });
+    const running = queue.enqueue('dialog', () => sleep(200));
+    const next = queue.enqueue('next', async () => 'ran');
+    await sleep(0);
+
+    queue.failActive(new Error('Unexpected confirm dialog'), { release: true });
+    await expect(running).rejects.toThrow('Unexpected confirm dialog');
+    const started = Date.now();
+    await expect(next).resolves.toBe('ran');
+    expect(Date.now() - started).toBeLessThan(100);
+  });
+
+  it('cancels queued actions but not the running one', async () => {
+    const queue = new ActionQueue();
+    const first = queue.enqueue('first', () => sleep(20));
+    const second = expect(queue.enqueue('second', async () => {})).rejects.toThrow('Action "second" was cancelled');
+    const third = expect(queue.enqueue('third', async () => {})).rejects.toThrow('Action "third" was cancelled');
+
+    const [queued] = queue.list();
+    expect(queue.cancel(queued.id)).toBe(true);
+    expect(queue.cancelAll()).toBe(1);
+
+    await expect(first).resolves.toBeUndefined();
+    await second;
+    await third;
+    expect(queue.running).toBe(false);
+  });
+});
@@ -0,0 +1,201 @@
+/** Options for a queued action */
+export interface ActionOptions {
+  /** Reject if the action has not finished this long after it starts (default: 30s, 0 = none) */
+  timeoutMs?: number;
+}
+
+/** A queued or running action, as reported by the API */
+export interface QueuedAction {
+  id: string;
+  label: string;
+  enqueuedAt: string;
+  /** Set once the action starts */
+  startedAt?: string;
+}
+
+/** Options for an ActionQueue */
+export interface ActionQueueOptions {
+  /**
+   * How long an abandoned (timed-out or failed) action may keep running before
+   * the queue gives up on it and starts the next one (default: 10s)
+   */
+  graceMs?: number;
+  /** Called when an abandoned action outlives the grace period; its page is likely wedged */
+  onStuck?: (action: QueuedAction) => void;
+}
+
+interface QueueEntry extends QueuedAction {
+  run: (signal: AbortSignal) => Promise<unknown>;
+  timeoutMs: number;
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_GRACE_MS = 10_000;
+
+/**
+ * Runs actions one at a time, in order, so concurrent callers cannot
+ * interleave on the same page.
+ *
+ * A timed-out or failed (see failActive) action is rejected right away, and
+ * its AbortSignal fires. Most Playwright calls cannot be aborted, though, so
+ * the next action waits for the abandoned one to settle - otherwise both would
+ * drive the same page. That wait is bounded by graceMs: an action still running
+ * after it is reported through onStuck and the queue moves on regardless.
+ */
+export class ActionQueue {
+  private queue: QueueEntry[] = [];
+  private graceMs: number;
+  private onStuck?: (action: QueuedAction) => void;
+  private current: QueueEntry | null = null;
+  /** Rejects the running action; set while one is running */
+  private failCurrent: ((error: Error, release: boolean) => void) | null = null;
+  private nextId = 1;
+
+  constructor(options: ActionQueueOptions = {}) {
+    this.graceMs = options.graceMs ?? DEFAULT_GRACE_MS;
+    this.onStuck = options.onStuck;
+  }
+
+  /** Actions waiting to start */
+  get depth(): number {
+    return this.queue.length;
+  }
+
+  /** True while an action is running */
+  get running(): boolean {
+    return this.current !== null;
+  }
+
+  /** The running action, if any */
+  get active(): QueuedAction | null {
+    return this.current ? this.describe(this.current) : null;
+  }
+
+  /** Actions waiting to start, oldest first */
+  list(): QueuedAction[] {
+    return this.queue.map((entry) => this.describe(entry));
+  }
+
+  /** Queue an action and wait for its result */
+  enqueue<T>(label: string, run: (signal: AbortSignal) => Promise<T>, options: ActionOptions = {}): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({
+        id: `action-${this.nextId++}`,
+        label,
+        enqueuedAt: new Date().toISOString(),
+        run,
+        timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+      });
+      void this.drain();
+    });
+  }
+
+  /** Cancel a queued action (a running one cannot be cancelled) */
+  cancel(id: string): boolean {
+    const index = this.queue.findIndex((entry) => entry.id === id);
+    if (index === -1) return false;
+
+    const [entry] = this.queue.splice(index, 1);
+    entry.reject(new Error(`Action "${entry.label}" was cancelled`));
+    return true;
+  }
+
+  /** Cancel every queued action, returning how many were dropped */
+  cancelAll(): number {
+    const dropped = this.queue.splice(0);
+    for (const entry of dropped) {
+      entry.reject(new Error(`Action "${entry.label}" was cancelled`));
+    }
+    return dropped.length;
+  }
+
+  /**
+   * Fail the running action with the given error, as if it had thrown.
+   * With release, the next action starts right away instead of waiting for
+   * the failed one to stop. Returns false when nothing is running.
+   */
+  failActive(error: Error, options: { release?: boolean } = {}): boolean {
+    if (!this.failCurrent) return false;
+    this.failCurrent(error, options.release ?? false);
+    return true;
+  }
+
+  /** Start the next action if nothing is running */
+  private async drain(): Promise<void> {
+    if (this.current) return;
+
+    const entry = this.queue.shift();
+    if (!entry) return;
+
+    this.current = entry;
+    entry.startedAt = new Date().toISOString();
+
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    let release = false;
+
+    // Started here rather than inside the race so it can be awaited after a timeout
+    const run = Promise.resolve().then(() => entry.run(controller.signal));
+
+    try {
+      const racers: Promise<unknown>[] = [
+        run,
+        new Promise<never>((_, reject) => {
+          this.failCurrent = (error, releaseNow) => {
+            release = releaseNow;
+            controller.abort();
+            reject(error);
+          };
+        }),
+      ];
+      if (entry.timeoutMs) {
+        racers.push(
+          new Promise<never>((_, reject) => {
+            timer = setTimeout(() => {
+              controller.abort();
+              reject(new Error(`Action "${entry.label}" timed out after ${entry.timeoutMs}ms`));
+            }, entry.timeoutMs);
+          })
+        );
+      }
+      entry.resolve(await Promise.race(racers));
+    } catch (err) {
+      entry.reject(err as Error);
+    } finally {
+      clearTimeout(timer);
+      this.failCurrent = null;
+      if (release) {
+        run.catch(() => {
+          // The caller was already failed; the slot is not held for its cleanup
+        });
+      } else if (!(await this.settlesWithin(run, this.graceMs))) {
+        this.onStuck?.(this.describe(entry));
+      }
+      this.current = null;
+      void this.drain();
+    }
+  }
+
+  /** Wait for an action to settle, up to ms; true if it did */
+  private async settlesWithin(run: Promise<unknown>, ms: number): Promise<boolean> {
+    let timer: NodeJS.Timeout | undefined;
+    // Errors were already reported to the caller, or the caller has given up on them
+    const settled = run.then(
+      () => true,
+      () => true
+    );
+    try {
+      return await Promise.race([settled, new Promise<boolean>((resolve) => (timer = setTimeout(() => resolve(false), ms)))]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private describe(entry: QueueEntry): QueuedAction {
+    return { id: entry.id, label: entry.label, enqueuedAt: entry.enqueuedAt, startedAt: entry.startedAt };
+  }
+}
@@ -1,10 +1,21 @@
-import { chromium, Browser, BrowserContext, Page } from 'playwright';
+import { chromium, Browser, BrowserContext, Page, Download, Dialog } from 'playwright';
 import { EventEmitter } from 'events';
+import { buildLaunchOptions } from './launchProfile.js';
+import { ActionQueue, type ActionOptions, type QueuedAction } from './ActionQueue.js';
+import { DownloadStore, defaultDownloadsDir } from './DownloadStore.js';
+import { PageLog, type PageLogQuery } from './PageLog.js';
+import { RequestBlocker } from './RequestBlocker.js';
+import { SocksRelay } from './SocksRelay.js';
+import { normalizeProxy, needsSocksRelay } from './proxyUrl.js';
 import type {
   BrowserInstanceConfig,
   ProxyConfig,
   BrowserStatus,
   BrowserInfo,
+  PageInfo,
+  DownloadInfo,
+  PageLogEntry,
+  BlockingRules,
   SessionData,
 } from '../types/index.js';
 
@@ -15,21 +26,47 @@ export class BrowserInstance extends EventEmitter {
   private browser: Browser | null = null;
   private context: BrowserContext | null = null;
   private pages: Map<string, Page> = new Map();
+  /** Last known title per page, kept current so getInfo() can stay synchronous */
+  private titles: Map<string, string> = new Map();
+  /** Tab last brought to the front, used as the current page while it is open */
+  private activePageId: string | null = null;
   private _status: BrowserStatus = 'closed';
   private _createdAt: Date | null = null;
-
-  constructor(config: BrowserInstanceConfig) {
+  private launchedWith: string | undefined;
+  private closing = false;
+  private _restartCount = 0;
+  private _lastCrash: { reason: string; at: string } | null = null;
+  /** Shared with the manager, which keeps one queue per browser name */
+  private queue: ActionQueue;
+  readonly downloads: DownloadStore;
+  /** In-flight saves, so a workflow can await the file for a download it triggered */
+  private captures: WeakMap<Download, Promise<DownloadInfo>> = new WeakMap();
+  /** Console messages, page errors, failed requests and dialogs (kept across relaunches) */
+  private log: PageLog;
+  /** Aborts requests matching config.blocking; counts carry over relaunches */
+  private blocker: RequestBlocker | null = null;
+  /** Carries Chrome's traffic to an authenticated SOCKS5 proxy; runs while the browser does */
+  private relay: SocksRelay | null = null;
+
+  constructor(config: BrowserInstanceConfig, queue: ActionQueue = new ActionQueue()) {
     super();
     this.name = config.name;
+    this.queue = queue;
     this.config = {
       headless: false, // Default to showing browser
       // Don't set default viewport - let it use actual window size
       ...config,
     };
+    this.downloads = new DownloadStore(this.config.downloadsDir ?? defaultDownloadsDir(this.name));
+    this.log = new PageLog(this.config.logBufferSize);
+    if (this.config.blocking) {
+      this.blocker = new RequestBlocker(this.config.blocking);
+    }
   }
 
   get status(): BrowserStatus {
-    return this._status;
+    // "busy" is derived: a ready browser that is running a queued action
+    return this._status === 'ready' && this.queue.running ? 'busy' : this._status;
   }
 
   get isReady(): boolean {
@@ -40,21 +77,54 @@ export class BrowserInstance extends EventEmitter {
     return this.pages.size;
   }
 
+  /** Times this instance was relaunched after a crash */
+  get restartCount(): number {
+    return this._restartCount;
+  }
+
   /** Get info about this browser instance */
   getInfo(): BrowserInfo {
     return {
       name: this.name,
-      status: this._status,
+      status: this.status,
       proxy: this.config.proxy,
       headless: this.config.headless ?? false,
       pageCount: this.pages.size,
+      pages: this.listPages(),
       createdAt: this._createdAt ?? new Date(),
+      launchedWith: this.launchedWith,
+      userDataDir: this.config.userDataDir,
+      cdpUrl: this.config.cdpUrl,
+      restartCount: this._restartCount,
+      lastCrash: this._lastCrash ?? undefined,
+      queueDepth: this.queue.depth,
+      currentAction: this.queue.active?.label,
+      blockedRequests: this.blocker?.getCounts(),
     };
   }
 
+  /**
+   * Run an action after any already queued on this browser finish.
+   * API routes go through here so concurrent requests cannot interleave on a page.
+   */
+  enqueue<T>(label: string, action: (signal: AbortSignal) => Promise<T>, options?: ActionOptions): Promise<T> {
+    return this.queue.enqueue(label, action, options);
+  }
+
+  /** The running action and those waiting behind it */
+  getQueue(): { active: QueuedAction | null; queued: QueuedAction[] } {
+    return { active: this.queue.active, queued: this.queue.list() };
+  }
+
+  /** Cancel one queued action, or all of them when no ID is given */
+  cancelQueued(actionId?: string): number {
+    if (actionId) return this.queue.cancel(actionId) ? 1 : 0;
+    return this.queue.cancelAll();
+  }
+
   /** Launch the browser */
   async launch(): Promise<void> {
-    if (this.browser) {
+    if (this.context) {
       throw new Error(`Browser "${this.name}" is already launched`);
     }
 
@@ -62,50 +132,251 @@ export class BrowserInstance extends EventEmitter {
     this._createdAt = new Date();
 
     try {
-      // Build launch options - use system Chrome instead of "Chrome for Testing"
-      const launchOptions: Parameters<typeof chromium.launch>[0] = {
-        headless: this.config.headless,
-        executablePath: '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
-        args: [
-          '--disable-blink-features=AutomationControlled', // Hide automation detection
-        ],
-        ignoreDefaultArgs: ['--enable-automation'], // Remove automation flag
-      };
-
-      // Add proxy if configured
-      if (this.config.proxy) {
-        launchOptions.proxy = this.buildProxyConfig(this.config.proxy);
-      }
+      const context = this.config.cdpUrl ? await this.attach(this.config.cdpUrl) : await this.launchChrome();
 
-      this.browser = await chromium.launch(launchOptions);
+      if (this.blocker && !this.blocker.isEmpty) {
+        await this.blocker.attach(context);
+      }
 
-      // Create browser context
-      // Use null viewport to match actual window size, or use specified viewport
-      const contextOptions: Parameters<Browser['newContext']>[0] = {
-        viewport: this.config.viewport ?? null,
-      };
+      // Listen for new pages
+      context.on('page', (page) => this.trackPage(page));
 
-      this.context = await this.browser.newContext(contextOptions);
+      // Watch for Chrome going away underneath us (crash, killed, window closed)
+      this.closing = false;
+      this.browser?.on('disconnected', () => this.handleCrash('Browser disconnected'));
+      context.on('close', () => this.handleCrash('Browser context closed'));
 
-      // Listen for new pages
-      this.context.on('page', (page) => {
-        const pageId = this.generatePageId();
-        this.pages.set(pageId, page);
-        this.emit('page:created', { pageId, url: page.url() });
-
-        page.on('close', () => {
-          this.pages.delete(pageId);
-          this.emit('page:closed', { pageId });
-        });
-      });
+      // A persistent context (or an attached browser) opens with tabs already there
+      for (const page of context.pages()) {
+        this.trackPage(page);
+      }
 
       this._status = 'ready';
     } catch (error) {
       this._status = 'error';
+      await this.stopRelay();
       throw error;
     }
   }
 
+  /** Launch our own Chrome (or open a persistent profile) */
+  private async launchChrome(): Promise<BrowserContext> {
+    // Resolve the browser binary - prefers system Chrome over "Chrome for Testing"
+    const { description, ...resolved } = buildLaunchOptions(this.config.launchProfile);
+    const launchOptions: Parameters<typeof chromium.launch>[0] = {
+      headless: this.config.headless,
+      ...resolved,
+    };
+    this.launchedWith = description;
+
+    // Add proxy if configured
+    if (this.config.proxy) {
+      launchOptions.proxy = await this.buildProxyConfig(this.config.proxy);
+    }
+
+    // Use null viewport to match actual window size, or use specified viewport
+    const viewport = this.config.viewport ?? null;
+
+    if (this.config.userDataDir) {
+      // Persistent profile - Chrome keeps its full state in userDataDir between runs
+      this.context = await chromium.launchPersistentContext(this.config.userDataDir, {
+        ...launchOptions,
+        viewport,
+      });
+    } else {
+      this.browser = await chromium.launch(launchOptions);
+      this.context = await this.browser.newContext({ viewport });
+    }
+    return this.context;
+  }
+
+  /** Adopt a Chrome someone else started, using its existing window and tabs */
+  private async attach(cdpUrl: string): Promise<BrowserContext> {
+    this.browser = await chromium.connectOverCDP(cdpUrl);
+    this.context = this.browser.contexts()[0] ?? (await this.browser.newContext({ viewport: this.config.viewport ?? null }));
+    this.launchedWith = `attached over CDP at ${cdpUrl}`;
+    return this.context;
+  }
+
+  /** Change the request-blocking rules; applies to a running browser immediately */
+  async setBlockingRules(rules: BlockingRules | undefined): Promise<void> {
+    this.config.blocking = rules;
+    if (!rules) {
+      // Routing stays on for the context, but with no rules nothing is blocked
+      this.blocker?.setRules({});
+      return;
+    }
+
+    if (this.blocker) {
+      this.blocker.setRules(rules);
+    } else {
+      this.blocker = new RequestBlocker(rules);
+    }
+    if (this.context && !this.blocker.isEmpty) {
+      await this.blocker.attach(this.context);
+    }
+  }
+
+  /** Relaunch after a crash, or after markStuck, with the same config */
+  async relaunch(): Promise<void> {
+    if (this.context) {
+      if (this._status !== 'error') {
+        throw new Error(`Browser "${this.name}" is still running`);
+      }
+      // Wedged rather than gone: drop it first, which also ends the stuck action
+      await this.close();
+    }
+    await this.launch();
+    this._restartCount++;
+  }
+
+  /**
+   * Flag the browser as needing a relaunch: an abandoned action is still
+   * running on it, so its pages are in an unknown state.
+   */
+  markStuck(label: string): void {
+    if (!this.context) return;
+    this._status = 'error';
+    this._lastCrash = { reason: `Action "${label}" did not stop after it was abandoned`, at: new Date().toISOString() };
+  }
+
+  /** Mark the instance dead after an unexpected disconnect (ignored during close()) */
+  private handleCrash(reason: string): void {
+    if (this.closing || !this.context) return;
+
+    this.browser = null;
+    this.context = null;
+    this.pages.clear();
+    this.titles.clear();
+    this.activePageId = null;
+    this._status = 'error';
+    this._lastCrash = { reason, at: new Date().toISOString() };
+    void this.stopRelay();
+    this.emit('crashed', { reason });
+  }
+
+  /** Register a page under a generated ID */
+  private trackPage(page: Page): void {
+    const pageId = this.generatePageId();
+    this.pages.set(pageId, page);
+    this.titles.set(pageId, '');
+    this.emit('page:created', { pageId, url: page.url() });
+
+    page.on('load', () => {
+      page
+        .title()
+        .then((title) => this.titles.set(pageId, title))
+        .catch(() => {
+          // Page closed or navigated away mid-read
+        });
+    });
+
+    page.on('console', (message) => {
+      this.addLog({ type: 'console', level: message.type(), pageId, url: page.url(), text: message.text() });
+    });
+
+    page.on('pageerror', (error) => {
+      this.addLog({ type: 'pageerror', level: 'error', pageId, url: page.url(), text: error.message });
+    });
+
+    page.on('requestfailed', (request) => {
+      this.addLog({
+        type: 'requestfailed',
+        level: request.resourceType(),
+        pageId,
+        url: request.url(),
+        text: `${request.method()} ${request.failure()?.errorText ?? 'failed'}`,
+      });
+    });
+
+    page.on('dialog', (dialog) => {
+      this.handleDialog(dialog, pageId).catch((err) => {
+        console.error(`[${this.name}] Failed to handle dialog:`, (err as Error).message);
+      });
+    });
+
+    page.on('download', (download) => {
+      this.captureDownload(download, pageId).catch((err) => {
+        console.error(`[${this.name}] Failed to record download:`, (err as Error).message);
+      });
+    });
+
+    page.on('close', () => {
+      this.pages.delete(pageId);
+      this.titles.delete(pageId);
+      if (this.activePageId === pageId) this.activePageId = null;
+      this.emit('page:closed', { pageId });
+    });
+  }
+
+  /**
+   * Answer a dialog per the dialogPolicy. Without this a confirm() the
+   * workflow did not expect would sit there until the action times out.
+   */
+  private async handleDialog(dialog: Dialog, pageId: string): Promise<void> {
+    const policy = this.config.dialogPolicy ?? 'dismiss';
+    this.addLog({
+      type: 'dialog',
+      level: dialog.type(),
+      pageId,
+      url: dialog.page()?.url() ?? '',
+      text: dialog.message(),
+      action: policy,
+    });
+
+    // "fail" dismisses too, so the page is never left blocked behind the dialog
+    try {
+      if (policy === 'accept') {
+        await dialog.accept();
+      } else {
+        await dialog.dismiss();
+      }
+    } catch {
+      // A workflow's own dialog listener already answered it
+    }
+
+    if (policy === 'fail') {
+      const message = `Unexpected ${dialog.type()} dialog on ${pageId}: "${dialog.message()}"`;
+      // Rejects the caller, aborts the action's signal and frees the queue. The
+      // dialog is already dismissed, so the page is usable by the next action.
+      if (!this.queue.failActive(new Error(message), { release: true })) {
+        console.warn(`⚠️  ${this.name}: ${message} (dismissed, no action running)`);
+      }
+    }
+  }
+
+  private addLog(entry: Omit<PageLogEntry, 'seq' | 'at'>): void {
+    this.emit('page:log', this.log.push(entry));
+  }
+
+  /** Console messages, page errors, failed requests and dialogs, oldest first */
+  getLogs(query?: PageLogQuery): PageLogEntry[] {
+    return this.log.list(query);
+  }
+
+  /** Empty the log buffer, returning how many entries were dropped */
+  clearLogs(): number {
+    return this.log.clear();
+  }
+
+  /** Save a download into this browser's downloads directory */
+  private captureDownload(download: Download, pageId: string | null): Promise<DownloadInfo> {
+    let capture = this.captures.get(download);
+    if (!capture) {
+      capture = this.downloads.save(download, pageId).then((info) => {
+        this.emit('download:completed', info);
+        return info;
+      });
+      this.captures.set(download, capture);
+    }
+    return capture;
+  }
+
+  /** Wait for a download to be saved and get its record */
+  async awaitDownload(download: Download): Promise<DownloadInfo> {
+    return await this.captureDownload(download, null);
+  }
+
   /** Create a new page */
   async newPage(): Promise<Page> {
     if (!this.context) {
@@ -116,20 +387,66 @@ export class BrowserInstance extends EventEmitter {
     return page;
   }
 
+  /** The browser context, or null when not launched */
+  getContext(): BrowserContext | null {
+    return this.context;
+  }
+
   /** Get all open pages */
   getPages(): Page[] {
     return Array.from(this.pages.values());
   }
 
-  /** Get the current/active page (most recently created) */
+  /** Open pages with their IDs, URLs and titles */
+  listPages(): PageInfo[] {
+    return Array.from(this.pages.entries()).map(([pageId, page]) => ({
+      pageId,
+      url: page.url(),
+      title: this.titles.get(pageId) ?? '',
+      active: page === this.getCurrentPage(),
+    }));
+  }
+
+  /** Get a page by ID */
+  getPage(pageId: string): Page | undefined {
+    return this.pages.get(pageId);
+  }
+
+  /** Get the current/active page (the tab brought to front, else the most recently created) */
   getCurrentPage(): Page | null {
+    const active = this.activePageId ? this.pages.get(this.activePageId) : undefined;
+    if (active) return active;
+
     const pages = this.getPages();
     return pages[pages.length - 1] ?? null;
   }
 
-  /** Navigate to a URL in the current page (or create one if none exists) */
-  async goto(url: string): Promise<Page> {
-    let page = this.getCurrentPage();
+  /** A specific page when pageId is given, otherwise the current one */
+  private resolvePage(pageId?: string): Page | null {
+    if (!pageId) return this.getCurrentPage();
+
+    const page = this.pages.get(pageId);
+    if (!page) {
+      throw new Error(`Page "${pageId}" not found in browser "${this.name}"`);
+    }
+    return page;
+  }
+
+  /** Bring a tab to the front and make it the current page */
+  async bringToFront(pageId: string): Promise<void> {
+    const page = this.resolvePage(pageId)!;
+    await page.bringToFront();
+    this.activePageId = pageId;
+  }
+
+  /** Close one tab */
+  async closePage(pageId: string): Promise<void> {
+    await this.resolvePage(pageId)!.close();
+  }
+
+  /** Navigate to a URL in the given or current page (or create one if none exists) */
+  async goto(url: string, pageId?: string): Promise<Page> {
+    let page = this.resolvePage(pageId);
     if (!page) {
       page = await this.newPage();
     }
@@ -236,9 +553,9 @@ export class BrowserInstance extends EventEmitter {
     this.emit('session:loaded', { sessionName: session.name });
   }
 
-  /** Take a screenshot of the current page */
-  async screenshot(options?: { fullPage?: boolean }): Promise<Buffer> {
-    const page = this.getCurrentPage();
+  /** Take a screenshot of the given or current page */
+  async screenshot(options?: { fullPage?: boolean; pageId?: string }): Promise<Buffer> {
+    const page = this.resolvePage(options?.pageId);
     if (!page) {
       throw new Error('No page available for screenshot');
     }
@@ -250,8 +567,8 @@ export class BrowserInstance extends EventEmitter {
   }
 
   /** Get page content as text */
-  async getTextContent(): Promise<string> {
-    const page = this.getCurrentPage();
+  async getTextContent(pageId?: string): Promise<string> {
+    const page = this.resolvePage(pageId);
     if (!page) {
       throw new Error('No page available');
     }
@@ -260,8 +577,8 @@ export class BrowserInstance extends EventEmitter {
   }
 
   /** Get page HTML */
-  async getHtml(): Promise<string> {
-    const page = this.getCurrentPage();
+  async getHtml(pageId?: string): Promise<string> {
+    const page = this.resolvePage(pageId);
     if (!page) {
       throw new Error('No page available');
     }
@@ -269,27 +586,61 @@ export class BrowserInstance extends EventEmitter {
     return await page.content();
   }
 
-  /** Close the browser */
+  /** True when attached over CDP to a browser this app did not launch */
+  get isAttached(): boolean {
+    return Boolean(this.config.cdpUrl);
+  }
+
+  /** Close the browser (an attached browser is only disconnected from, not closed) */
   async close(): Promise<void> {
-    if (this.browser) {
-      await this.browser.close();
+    if (this.context) {
+      this.closing = true;
+      // A persistent context has no separate Browser object - closing it ends the process.
+      // For a CDP-attached browser, Browser.close() just drops the connection.
+      if (this.browser) {
+        await this.browser.close();
+      } else {
+        await this.context.close();
+      }
       this.browser = null;
       this.context = null;
       this.pages.clear();
+      this.titles.clear();
+      this.activePageId = null;
       this._status = 'closed';
     }
+    await this.stopRelay();
   }
 
-  /** Build Playwright proxy config from our ProxyConfig */
-  private buildProxyConfig(proxy: ProxyConfig): { server: string; username?: string; password?: string; bypass?: string } {
+  /**
+   * Build Playwright proxy config from our ProxyConfig. Credentials may be
+   * embedded in the server URL; an authenticated SOCKS5 proxy is reached
+   * through a local relay, since Chrome cannot authenticate to SOCKS itself.
+   */
+  private async buildProxyConfig(
+    config: ProxyConfig
+  ): Promise<{ server: string; username?: string; password?: string; bypass?: string }> {
+    const proxy = normalizeProxy(config);
+    const bypass = proxy.bypass?.join(',');
+
+    if (needsSocksRelay(proxy)) {
+      this.relay = new SocksRelay(proxy);
+      return { server: await this.relay.start(), bypass };
+    }
     return {
       server: proxy.server,
       username: proxy.username,
       password: proxy.password,
-      bypass: proxy.bypass?.join(','),
+      bypass,
     };
   }
 
+  private async stopRelay(): Promise<void> {
+    const relay = this.relay;
+    this.relay = null;
+    await relay?.stop();
+  }
+
   /** Generate unique page ID */
   private generatePageId(): string {
     return `page-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
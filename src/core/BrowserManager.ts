@@ -1,15 +1,43 @@
 import { EventEmitter } from 'events';
+import { resolve } from 'path';
 import { BrowserInstance } from './BrowserInstance.js';
+import { ActionQueue, type ActionOptions } from './ActionQueue.js';
+import { DownloadStore, defaultDownloadsDir } from './DownloadStore.js';
 import { SessionManager } from '../session/SessionManager.js';
+import { ProfileManager, type ProfileInfo } from '../session/ProfileManager.js';
 import type { BrowserInstanceConfig, BrowserInfo, SessionData } from '../types/index.js';
 
+const DEFAULT_MAX_RESTARTS = 3;
+/** Queue timeout for an automatic relaunch: a Chrome launch plus restoring the session */
+const RELAUNCH_TIMEOUT_MS = 2 * 60_000;
+
+/** Thrown when a profile directory is changed while a running browser has it open */
+export class ProfileInUseError extends Error {
+  constructor(
+    readonly profile: string,
+    readonly browser: string
+  ) {
+    super(`Profile "${profile}" is in use by browser "${browser}" - close it first`);
+    this.name = 'ProfileInUseError';
+  }
+}
+
 export class BrowserManager extends EventEmitter {
   private instances: Map<string, BrowserInstance> = new Map();
   private sessionManager: SessionManager;
+  private profileManager: ProfileManager;
+  /** Last session saved to or loaded into each browser, restored after a relaunch */
+  private lastSessions: Map<string, string> = new Map();
+  /**
+   * Action queue per browser name. It outlives the instance, so work started
+   * before a launch or during a relaunch is serialized with everything else.
+   */
+  private queues: Map<string, ActionQueue> = new Map();
 
-  constructor(sessionsDir?: string) {
+  constructor(sessionsDir?: string, profilesDir?: string) {
     super();
     this.sessionManager = new SessionManager(sessionsDir);
+    this.profileManager = new ProfileManager(profilesDir);
   }
 
   /** Create and launch a new browser instance */
@@ -18,12 +46,15 @@ export class BrowserManager extends EventEmitter {
       throw new Error(`Browser instance "${config.name}" already exists`);
     }
 
-    const instance = new BrowserInstance(config);
+    const instance = new BrowserInstance(config, this.queueFor(config.name));
 
     // Forward events
     instance.on('page:created', (data) => this.emit('page:created', { browser: config.name, ...data }));
     instance.on('page:closed', (data) => this.emit('page:closed', { browser: config.name, ...data }));
     instance.on('page:navigated', (data) => this.emit('page:navigated', { browser: config.name, ...data }));
+    instance.on('download:completed', (data) => this.emit('download:completed', { browser: config.name, ...data }));
+    instance.on('page:log', (data) => this.emit('page:log', { browser: config.name, ...data }));
+    instance.on('crashed', (data: { reason: string }) => this.handleCrash(instance, data.reason));
 
     await instance.launch();
     this.instances.set(config.name, instance);
@@ -32,6 +63,70 @@ export class BrowserManager extends EventEmitter {
     return instance;
   }
 
+  /**
+   * Adopt a Chrome that is already running with --remote-debugging-port,
+   * e.g. one an operator is logged in on. Closing it only detaches.
+   */
+  async attach(
+    name: string,
+    cdpUrl: string,
+    options: Omit<BrowserInstanceConfig, 'name' | 'cdpUrl'> = {}
+  ): Promise<BrowserInstance> {
+    return await this.create({ ...options, name, cdpUrl });
+  }
+
+  /**
+   * Relaunch a crashed browser with its original config and re-inject the
+   * last session it saved or loaded.
+   */
+  async relaunch(name: string): Promise<BrowserInstance> {
+    const instance = this.getOrThrow(name);
+    await instance.relaunch();
+
+    const sessionName = this.lastSessions.get(name);
+    if (sessionName) {
+      const session = await this.sessionManager.load(sessionName);
+      if (session) {
+        await instance.injectSession(session);
+      }
+    }
+
+    this.emit('browser:restarted', { name, restartCount: instance.restartCount, sessionName });
+    return instance;
+  }
+
+  /** Report a crash and relaunch if the instance asked for it */
+  private async handleCrash(instance: BrowserInstance, reason: string): Promise<void> {
+    console.error(`💥 Browser "${instance.name}" crashed: ${reason}`);
+    this.emit('browser:crashed', { name: instance.name, reason });
+
+    const { relaunchOnCrash, maxRestarts = DEFAULT_MAX_RESTARTS } = instance.config;
+    if (!relaunchOnCrash || !this.instances.has(instance.name)) return;
+
+    if (instance.restartCount >= maxRestarts) {
+      console.error(`   Not relaunching "${instance.name}" - already restarted ${instance.restartCount} times`);
+      return;
+    }
+
+    try {
+      // Queued, so it waits for the action that was running when Chrome died
+      // and nothing queued behind it runs against a half-launched browser
+      await this.enqueue(
+        instance.name,
+        'relaunch',
+        async () => {
+          // Closed or already relaunched while waiting in the queue
+          if (this.instances.get(instance.name) !== instance || instance.status !== 'error') return;
+          console.log(`🔄 Relaunching "${instance.name}"...`);
+          await this.relaunch(instance.name);
+        },
+        { timeoutMs: RELAUNCH_TIMEOUT_MS }
+      );
+    } catch (err) {
+      console.error(`   Relaunch of "${instance.name}" failed:`, (err as Error).message);
+    }
+  }
+
   /** Get a browser instance by name */
   get(name: string): BrowserInstance | undefined {
     return this.instances.get(name);
@@ -56,6 +151,29 @@ export class BrowserManager extends EventEmitter {
     return Array.from(this.instances.keys());
   }
 
+  /**
+   * Run an action through the named browser's queue, whether or not the
+   * browser is running yet (e.g. a site init that launches it).
+   */
+  enqueue<T>(name: string, label: string, action: (signal: AbortSignal) => Promise<T>, options?: ActionOptions): Promise<T> {
+    return this.queueFor(name).enqueue(label, action, options);
+  }
+
+  private queueFor(name: string): ActionQueue {
+    let queue = this.queues.get(name);
+    if (!queue) {
+      queue = new ActionQueue({
+        onStuck: (action) => {
+          console.error(`⚠️  Action "${action.label}" on "${name}" did not stop after it was abandoned`);
+          this.instances.get(name)?.markStuck(action.label);
+          this.emit('browser:stuck', { name, action: action.label });
+        },
+      });
+      this.queues.set(name, queue);
+    }
+    return queue;
+  }
+
   /** Check if a browser instance exists */
   has(name: string): boolean {
     return this.instances.has(name);
@@ -70,6 +188,7 @@ export class BrowserManager extends EventEmitter {
 
     await instance.close();
     this.instances.delete(name);
+    this.lastSessions.delete(name);
     this.emit('browser:closed', { name });
   }
 
@@ -82,6 +201,7 @@ export class BrowserManager extends EventEmitter {
 
     await Promise.all(closePromises);
     this.instances.clear();
+    this.lastSessions.clear();
   }
 
   /** Save session for a browser instance */
@@ -96,6 +216,7 @@ export class BrowserManager extends EventEmitter {
       updatedAt: new Date().toISOString(),
     });
 
+    this.lastSessions.set(browserName, sessionName);
     this.emit('session:saved', { browserName, sessionName });
   }
 
@@ -109,6 +230,7 @@ export class BrowserManager extends EventEmitter {
     }
 
     await instance.injectSession(session);
+    this.lastSessions.set(browserName, sessionName);
     this.emit('session:loaded', { browserName, sessionName });
   }
 
@@ -123,6 +245,59 @@ export class BrowserManager extends EventEmitter {
     this.emit('session:deleted', { sessionName });
   }
 
+  /** Downloads for a browser name - also readable after the browser has closed */
+  getDownloads(name: string): DownloadStore {
+    return this.instances.get(name)?.downloads ?? new DownloadStore(defaultDownloadsDir(name));
+  }
+
+  /** List persistent profiles */
+  async listProfiles(): Promise<ProfileInfo[]> {
+    return await this.profileManager.list();
+  }
+
+  /** Get a persistent profile */
+  async getProfile(name: string): Promise<ProfileInfo | null> {
+    return await this.profileManager.get(name);
+  }
+
+  /** Directory for a persistent profile, created if missing */
+  async ensureProfile(name: string): Promise<string> {
+    return await this.profileManager.create(name);
+  }
+
+  /** Copy a persistent profile (the source must not be open) */
+  async cloneProfile(source: string, target: string): Promise<ProfileInfo> {
+    this.assertProfileClosed(source);
+    await this.profileManager.clone(source, target);
+    this.emit('profile:cloned', { source, target });
+    return (await this.profileManager.get(target))!;
+  }
+
+  /** Wipe a persistent profile back to empty */
+  async resetProfile(name: string): Promise<void> {
+    this.assertProfileClosed(name);
+    await this.profileManager.reset(name);
+    this.emit('profile:reset', { name });
+  }
+
+  /** Delete a persistent profile */
+  async deleteProfile(name: string): Promise<boolean> {
+    this.assertProfileClosed(name);
+    const deleted = await this.profileManager.delete(name);
+    if (deleted) this.emit('profile:deleted', { name });
+    return deleted;
+  }
+
+  /** Refuse to touch a profile directory a running browser has open */
+  private assertProfileClosed(name: string): void {
+    const path = this.profileManager.getProfilePath(name);
+    for (const instance of this.instances.values()) {
+      if (instance.config.userDataDir && resolve(instance.config.userDataDir) === path) {
+        throw new ProfileInUseError(name, instance.name);
+      }
+    }
+  }
+
   /** Create browser and load existing session in one call */
   async createWithSession(
     config: BrowserInstanceConfig,
@@ -133,6 +308,7 @@ export class BrowserManager extends EventEmitter {
     const session = await this.sessionManager.load(sessionName);
     if (session) {
       await instance.injectSession(session);
+      this.lastSessions.set(config.name, sessionName);
     }
 
     return instance;
@@ -0,0 +1,85 @@
+import type { Download } from 'playwright';
+import { readFile, writeFile, mkdir, stat } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join, resolve } from 'path';
+import type { DownloadInfo } from '../types/index.js';
+
+const DEFAULT_DOWNLOADS_DIR = './downloads';
+const INDEX_FILE = 'downloads.json';
+
+/** Default downloads directory for a browser instance (one per site) */
+export function defaultDownloadsDir(browserName: string): string {
+  return join(DEFAULT_DOWNLOADS_DIR, browserName.replace(/[^a-zA-Z0-9_-]/g, '_'));
+}
+
+/**
+ * Saves files downloaded in a browser into one directory and keeps an index
+ * of them (downloads.json) so they can be listed after a restart.
+ */
+export class DownloadStore {
+  readonly dir: string;
+  /** Serializes index writes so concurrent downloads don't drop entries */
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(dir: string) {
+    this.dir = resolve(dir);
+  }
+
+  /** Save a Playwright download and record it in the index */
+  async save(download: Download, pageId: string | null): Promise<DownloadInfo> {
+    await mkdir(this.dir, { recursive: true });
+
+    const suggestedFilename = download.suggestedFilename();
+    const id = `dl-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    // Prefix with the ID so two "statement.csv" downloads don't overwrite each other
+    const path = join(this.dir, `${id}-${suggestedFilename.replace(/[^a-zA-Z0-9._-]/g, '_')}`);
+
+    const info: DownloadInfo = {
+      id,
+      pageId,
+      url: download.url(),
+      suggestedFilename,
+      path,
+      size: 0,
+      createdAt: new Date().toISOString(),
+    };
+
+    try {
+      await download.saveAs(path);
+      info.size = (await stat(path)).size;
+    } catch (err) {
+      info.error = (await download.failure()) ?? (err as Error).message;
+    }
+
+    await this.append(info);
+    return info;
+  }
+
+  /** All recorded downloads, newest first */
+  async list(): Promise<DownloadInfo[]> {
+    const file = join(this.dir, INDEX_FILE);
+    if (!existsSync(file)) return [];
+
+    try {
+      const entries = JSON.parse(await readFile(file, 'utf-8')) as DownloadInfo[];
+      return entries.reverse();
+    } catch {
+      return [];
+    }
+  }
+
+  /** Get one download by ID */
+  async get(id: string): Promise<DownloadInfo | null> {
+    return (await this.list()).find((entry) => entry.id === id) ?? null;
+  }
+
+  private async append(info: DownloadInfo): Promise<void> {
+    const write = this.writing.then(async () => {
+      const entries = (await this.list()).reverse();
+      entries.push(info);
+      await writeFile(join(this.dir, INDEX_FILE), JSON.stringify(entries, null, 2), 'utf-8');
+    });
+    this.writing = write.catch(() => {});
+    await write;
+  }
+}
@@ -0,0 +1,129 @@
+import type { BrowserContext, Request } from 'playwright';
+import { writeFile } from 'fs/promises';
+import { redactHeaders, redactPostData } from './redact.js';
+
+interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    headers: Array<{ name: string; value: string }>;
+    queryString: Array<{ name: string; value: string }>;
+    cookies: [];
+    headersSize: number;
+    bodySize: number;
+    postData?: { mimeType: string; text: string };
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    headers: Array<{ name: string; value: string }>;
+    cookies: [];
+    content: { size: number; mimeType: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+    _failureText?: string;
+  };
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+  _resourceType: string;
+}
+
+/**
+ * Records the requests a browser context makes into a HAR 1.2 file.
+ * Playwright's own recordHar only writes when the context closes, which is
+ * too late for per-run files on a long-lived browser. Response bodies are left
+ * out; credential headers, cookies and login fields are redacted before
+ * anything is kept.
+ */
+export class HarRecorder {
+  private entries: Promise<HarEntry | null>[] = [];
+  private onFinished = (request: Request) => this.entries.push(this.toEntry(request, null));
+  private onFailed = (request: Request) => this.entries.push(this.toEntry(request, request.failure()?.errorText ?? 'failed'));
+
+  /** @param secrets - Values to scrub wherever they appear, e.g. the site password */
+  constructor(
+    private context: BrowserContext,
+    private secrets: string[] = []
+  ) {
+    context.on('requestfinished', this.onFinished);
+    context.on('requestfailed', this.onFailed);
+  }
+
+  /** Stop listening and write what was recorded */
+  async save(path: string): Promise<number> {
+    this.context.off('requestfinished', this.onFinished);
+    this.context.off('requestfailed', this.onFailed);
+
+    const entries = (await Promise.all(this.entries)).filter((entry): entry is HarEntry => entry !== null);
+    const har = {
+      log: {
+        version: '1.2',
+        creator: { name: 'bb-betting', version: '1.0.0' },
+        pages: [],
+        entries,
+      },
+    };
+    await writeFile(path, JSON.stringify(har, null, 2), 'utf-8');
+    return entries.length;
+  }
+
+  private async toEntry(request: Request, failure: string | null): Promise<HarEntry | null> {
+    try {
+      const timing = request.timing();
+      const response = failure ? null : await request.response();
+      const requestHeaders = await request.allHeaders();
+      const responseHeaders = response ? await response.allHeaders() : {};
+      const sizes = failure ? null : await request.sizes().catch(() => null);
+      const url = new URL(request.url());
+      const postData = request.postData();
+      const mimeType = requestHeaders['content-type'] ?? '';
+
+      // Playwright timings are relative to startTime, -1 when not available
+      const wait = timing.responseStart >= 0 && timing.requestStart >= 0 ? timing.responseStart - timing.requestStart : -1;
+      const receive = timing.responseEnd >= 0 && timing.responseStart >= 0 ? timing.responseEnd - timing.responseStart : -1;
+
+      return {
+        startedDateTime: new Date(timing.startTime).toISOString(),
+        time: Math.max(0, timing.responseEnd),
+        request: {
+          method: request.method(),
+          url: request.url(),
+          httpVersion: 'HTTP/1.1',
+          headers: redactHeaders(toNameValue(requestHeaders)),
+          queryString: [...url.searchParams].map(([name, value]) => ({ name, value })),
+          cookies: [],
+          headersSize: sizes?.requestHeadersSize ?? -1,
+          bodySize: sizes?.requestBodySize ?? -1,
+          ...(postData ? { postData: { mimeType, text: redactPostData(postData, mimeType, this.secrets) } } : {}),
+        },
+        response: {
+          status: response?.status() ?? 0,
+          statusText: response?.statusText() ?? '',
+          httpVersion: 'HTTP/1.1',
+          headers: redactHeaders(toNameValue(responseHeaders)),
+          cookies: [],
+          content: { size: sizes?.responseBodySize ?? -1, mimeType: responseHeaders['content-type'] ?? '' },
+          redirectURL: responseHeaders['location'] ?? '',
+          headersSize: sizes?.responseHeadersSize ?? -1,
+          bodySize: sizes?.responseBodySize ?? -1,
+          ...(failure ? { _failureText: failure } : {}),
+        },
+        cache: {},
+        timings: { send: 0, wait, receive },
+        _resourceType: request.resourceType(),
+      };
+    } catch {
+      // Page or context went away before the details could be read
+      return null;
+    }
+  }
+}
+
+function toNameValue(headers: Record<string, string>): Array<{ name: string; value: string }> {
+  return Object.entries(headers).map(([name, value]) => ({ name, value }));
+}
@@ -0,0 +1,46 @@
+import type { PageLogEntry, PageLogType } from '../types/index.js';
+
+const DEFAULT_CAPACITY = 500;
+
+/** Filters for reading a PageLog */
+export interface PageLogQuery {
+  type?: PageLogType;
+  /** Only entries with a seq greater than this, for polling */
+  since?: number;
+  /** Only the newest N matching entries */
+  limit?: number;
+}
+
+/**
+ * Bounded buffer of what pages reported: console messages, page errors,
+ * failed requests and dialogs. Once full, the oldest entries are dropped.
+ */
+export class PageLog {
+  private entries: PageLogEntry[] = [];
+  private nextSeq = 1;
+
+  constructor(private capacity: number = DEFAULT_CAPACITY) {}
+
+  /** Record an entry, evicting the oldest if the buffer is full */
+  push(entry: Omit<PageLogEntry, 'seq' | 'at'>): PageLogEntry {
+    const stored: PageLogEntry = { seq: this.nextSeq++, at: new Date().toISOString(), ...entry };
+    this.entries.push(stored);
+    if (this.entries.length > this.capacity) {
+      this.entries.splice(0, this.entries.length - this.capacity);
+    }
+    return stored;
+  }
+
+  /** Entries oldest first */
+  list(query: PageLogQuery = {}): PageLogEntry[] {
+    const matches = this.entries.filter(
+      (entry) => (!query.type || entry.type === query.type) && (query.since === undefined || entry.seq > query.since)
+    );
+    return query.limit !== undefined ? matches.slice(-query.limit) : matches;
+  }
+
+  /** Drop every entry, returning how many there were */
+  clear(): number {
+    return this.entries.splice(0).length;
+  }
+}
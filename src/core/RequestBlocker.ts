@@ -0,0 +1,147 @@
+import type { BrowserContext, Request, Route } from 'playwright';
+import type { BlockingPreset, BlockingRules, BlockedCounts } from '../types/index.js';
+
+/** Ad, analytics and chat-widget hosts that sportsbook pages pull in */
+const TRACKER_DOMAINS = [
+  'google-analytics.com',
+  'googletagmanager.com',
+  'doubleclick.net',
+  'googlesyndication.com',
+  'facebook.net',
+  'hotjar.com',
+  'clarity.ms',
+  'segment.io',
+  'mixpanel.com',
+  'amplitude.com',
+  'intercom.io',
+  'livechatinc.com',
+  'zdassets.com',
+  'zopim.com',
+  'tawk.to',
+];
+
+/** Named rule sets; a site's own rules are added on top */
+export const BLOCKING_PRESETS: Record<BlockingPreset, Omit<BlockingRules, 'preset'>> = {
+  /** Everything a history scrape doesn't need: media, fonts, trackers and chat */
+  'scrape-lite': {
+    resourceTypes: ['image', 'media', 'font'],
+    domains: TRACKER_DOMAINS,
+  },
+  'no-media': {
+    resourceTypes: ['image', 'media'],
+  },
+  'no-trackers': {
+    domains: TRACKER_DOMAINS,
+  },
+};
+
+/** Preset plus explicit rules, merged into one rule set */
+export function resolveBlockingRules(rules: BlockingRules): Required<Omit<BlockingRules, 'preset'>> {
+  const preset = rules.preset ? BLOCKING_PRESETS[rules.preset] : undefined;
+  if (rules.preset && !preset) {
+    throw new Error(`Unknown blocking preset "${rules.preset}". Available: ${Object.keys(BLOCKING_PRESETS).join(', ')}`);
+  }
+
+  const merge = (a?: string[], b?: string[]) => [...new Set([...(a ?? []), ...(b ?? [])])];
+  return {
+    resourceTypes: merge(preset?.resourceTypes, rules.resourceTypes),
+    urlPatterns: merge(preset?.urlPatterns, rules.urlPatterns),
+    domains: merge(preset?.domains, rules.domains).map((domain) => domain.toLowerCase()),
+  };
+}
+
+/** Playwright-style URL glob: "**" matches anything, "*" anything but "/" */
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      source += '.*';
+      i++;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '.';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Aborts requests matching a site's blocking rules before they hit the
+ * network, counting what it blocked per rule. Note that Playwright turns off
+ * the HTTP cache for a context once routing is on.
+ */
+export class RequestBlocker {
+  private rules!: Required<Omit<BlockingRules, 'preset'>>;
+  private patterns: Array<{ glob: string; regex: RegExp }> = [];
+  private counts: BlockedCounts = { total: 0, byRule: {} };
+  private contexts: WeakSet<BrowserContext> = new WeakSet();
+
+  constructor(rules: BlockingRules) {
+    this.setRules(rules);
+  }
+
+  /** Replace the rules; already attached contexts pick them up immediately */
+  setRules(rules: BlockingRules): void {
+    this.rules = resolveBlockingRules(rules);
+    this.patterns = this.rules.urlPatterns.map((glob) => ({ glob, regex: globToRegExp(glob) }));
+  }
+
+  /** True when there is nothing to block */
+  get isEmpty(): boolean {
+    return !this.rules.resourceTypes.length && !this.rules.urlPatterns.length && !this.rules.domains.length;
+  }
+
+  /** Start intercepting a context's requests (once per context) */
+  async attach(context: BrowserContext): Promise<void> {
+    if (this.contexts.has(context)) return;
+    this.contexts.add(context);
+    await context.route('**/*', (route) =>
+      this.handle(route).catch(() => {
+        // Page closed while the request was in flight
+      })
+    );
+  }
+
+  /** Blocked requests so far, in total and per matching rule */
+  getCounts(): BlockedCounts {
+    return { total: this.counts.total, byRule: { ...this.counts.byRule } };
+  }
+
+  /** The rule that blocks this request, e.g. "type:image", or null */
+  match(request: Request): string | null {
+    const type = request.resourceType();
+    if (this.rules.resourceTypes.includes(type)) return `type:${type}`;
+
+    const url = request.url();
+    let host = '';
+    try {
+      host = new URL(url).hostname.toLowerCase();
+    } catch {
+      // data: and other non-standard URLs have no host
+    }
+    const domain = host && this.rules.domains.find((d) => host === d || host.endsWith(`.${d}`));
+    if (domain) return `domain:${domain}`;
+
+    const pattern = this.patterns.find((p) => p.regex.test(url));
+    if (pattern) return `url:${pattern.glob}`;
+
+    return null;
+  }
+
+  private async handle(route: Route): Promise<void> {
+    const rule = this.match(route.request());
+    if (!rule) {
+      // Let any other route handlers (or the network) have it
+      await route.fallback();
+      return;
+    }
+
+    this.counts.total++;
+    this.counts.byRule[rule] = (this.counts.byRule[rule] ?? 0) + 1;
+    await route.abort('blockedbyclient');
+  }
+}
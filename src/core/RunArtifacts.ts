@@ -0,0 +1,191 @@
+import type { BrowserContext } from 'playwright';
+import { readFile, writeFile, readdir, mkdir, rm, stat } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join, resolve } from 'path';
+import { HarRecorder } from './HarRecorder.js';
+import { redactTrace } from './redact.js';
+import type { RecordingOptions, RunInfo } from '../types/index.js';
+
+const DEFAULT_ARTIFACTS_DIR = './artifacts';
+const RUN_FILE = 'run.json';
+const TRACE_FILE = 'trace.zip';
+const HAR_FILE = 'network.har';
+
+/** How many runs to keep on disk; the oldest are deleted first */
+export interface RetentionLimits {
+  /** Keep at most this many runs (default: 50) */
+  maxRuns?: number;
+  /** Delete runs older than this (default: 14) */
+  maxAgeDays?: number;
+  /** Keep total artifact size under this (default: 2 GB) */
+  maxTotalBytes?: number;
+}
+
+const DEFAULT_RETENTION: Required<RetentionLimits> = {
+  maxRuns: 50,
+  maxAgeDays: 14,
+  maxTotalBytes: 2 * 1024 * 1024 * 1024,
+};
+
+/** A run in progress; call finish() when the workflow step is done */
+export interface ActiveRun {
+  readonly runId: string;
+  finish(outcome: { success: boolean; error?: string }): Promise<RunInfo>;
+}
+
+/**
+ * Records each workflow run (login, history fetch) under <artifactsDir>/<runId>/:
+ * always a run.json with the outcome, plus a Playwright trace and HAR file
+ * when recording is turned on. Old runs are pruned after each one finishes.
+ */
+export class RunArtifacts {
+  private dir: string;
+  private retention: Required<RetentionLimits>;
+
+  constructor(artifactsDir?: string, retention: RetentionLimits = {}) {
+    this.dir = resolve(artifactsDir ?? DEFAULT_ARTIFACTS_DIR);
+    this.retention = { ...DEFAULT_RETENTION, ...retention };
+  }
+
+  /**
+   * Start recording a run. Tracing is skipped (and noted in the run) if there
+   * is no browser context or it is already being traced.
+   * @param secrets - Values (e.g. the site password) scrubbed from the trace and HAR before they are kept
+   */
+  async start(
+    siteId: string,
+    kind: RunInfo['kind'],
+    context: BrowserContext | null,
+    options: RecordingOptions,
+    secrets: string[] = []
+  ): Promise<ActiveRun> {
+    const startedAt = new Date();
+    const runId = this.safeName(`${siteId}-${kind}-${startedAt.toISOString().replace(/[:.]/g, '-')}`);
+    const runDir = join(this.dir, runId);
+    await mkdir(runDir, { recursive: true });
+
+    const notes: string[] = [];
+    let tracing = false;
+    if (options.trace && !context) {
+      notes.push('Trace not recorded: no browser context');
+    } else if (options.trace && context) {
+      try {
+        await context.tracing.start({ name: runId, screenshots: true, snapshots: true });
+        tracing = true;
+      } catch (err) {
+        notes.push(`Trace not recorded: ${(err as Error).message}`);
+      }
+    }
+    const har = options.har && context ? new HarRecorder(context, secrets) : null;
+
+    return {
+      runId,
+      finish: async (outcome) => {
+        const files: string[] = [];
+
+        if (tracing && context) {
+          const tracePath = join(runDir, TRACE_FILE);
+          try {
+            await context.tracing.stop({ path: tracePath });
+            await redactTrace(tracePath, secrets);
+            files.push(TRACE_FILE);
+          } catch (err) {
+            // Never leave an unredacted trace behind
+            await rm(tracePath, { force: true });
+            notes.push(`Trace not saved: ${(err as Error).message}`);
+          }
+        }
+        if (har) {
+          await har.save(join(runDir, HAR_FILE));
+          files.push(HAR_FILE);
+        }
+
+        const run: RunInfo = {
+          runId,
+          siteId,
+          kind,
+          startedAt: startedAt.toISOString(),
+          finishedAt: new Date().toISOString(),
+          success: outcome.success,
+          error: outcome.error,
+          files,
+          notes: notes.length ? notes : undefined,
+        };
+        await writeFile(join(runDir, RUN_FILE), JSON.stringify(run, null, 2), 'utf-8');
+
+        await this.prune().catch((err) => console.error('Failed to prune run artifacts:', err));
+        return run;
+      },
+    };
+  }
+
+  /** Recorded runs, newest first, optionally for one site */
+  async list(siteId?: string): Promise<RunInfo[]> {
+    if (!existsSync(this.dir)) return [];
+
+    const entries = await readdir(this.dir, { withFileTypes: true });
+    const runs = await Promise.all(
+      entries.filter((entry) => entry.isDirectory()).map((entry) => this.get(entry.name))
+    );
+
+    return runs
+      .filter((run): run is RunInfo => run !== null && (!siteId || run.siteId === siteId))
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  }
+
+  /** Get one run */
+  async get(runId: string): Promise<RunInfo | null> {
+    const file = join(this.dir, this.safeName(runId), RUN_FILE);
+    if (!existsSync(file)) return null;
+
+    try {
+      return JSON.parse(await readFile(file, 'utf-8')) as RunInfo;
+    } catch {
+      return null;
+    }
+  }
+
+  /** Path of a run's artifact file, or null if the run has no such file */
+  async getFilePath(runId: string, file: string): Promise<string | null> {
+    const run = await this.get(runId);
+    if (!run || !run.files.includes(file)) return null;
+    return join(this.dir, this.safeName(runId), file);
+  }
+
+  /** Delete runs beyond the retention limits, oldest first */
+  async prune(): Promise<number> {
+    const runs = await this.list();
+    const cutoff = Date.now() - this.retention.maxAgeDays * 24 * 60 * 60 * 1000;
+
+    let totalBytes = 0;
+    let removed = 0;
+    for (const [index, run] of runs.entries()) {
+      const runDir = join(this.dir, this.safeName(run.runId));
+      totalBytes += await this.directorySize(runDir);
+
+      const expired =
+        index >= this.retention.maxRuns ||
+        new Date(run.startedAt).getTime() < cutoff ||
+        totalBytes > this.retention.maxTotalBytes;
+
+      if (expired) {
+        await rm(runDir, { recursive: true, force: true });
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  private safeName(runId: string): string {
+    return runId.replace(/[^a-zA-Z0-9_-]/g, '_');
+  }
+
+  private async directorySize(dir: string): Promise<number> {
+    if (!existsSync(dir)) return 0;
+    let total = 0;
+    for (const entry of await readdir(dir, { withFileTypes: true })) {
+      if (entry.isFile()) total += (await stat(join(dir, entry.name))).size;
+    }
+    return total;
+  }
+}
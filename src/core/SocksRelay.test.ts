@@ -0,0 +1,201 @@
+import net, { type AddressInfo, type Server, type Socket } from 'net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { SocksRelay, connectSocks5 } from './SocksRelay.js';
+
+/** Where a fake proxy stops answering */
+type Stall = 'greeting' | 'connect';
+
+interface FakeProxy {
+  server: Server;
+  url: string;
+  /** Sockets the proxy accepted, to check they were closed */
+  accepted: Socket[];
+}
+
+/** Read exactly size bytes from a socket */
+function readBytes(socket: Socket, size: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    let buffer = Buffer.alloc(0);
+    const onData = (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      if (buffer.length < size) return;
+      socket.off('data', onData);
+      socket.off('close', onClose);
+      socket.pause();
+      if (buffer.length > size) socket.unshift(buffer.subarray(size));
+      resolve(buffer.subarray(0, size));
+    };
+    const onClose = () => reject(new Error('closed'));
+    socket.on('data', onData);
+    socket.once('close', onClose);
+    socket.resume();
+  });
+}
+
+/**
+ * A SOCKS5 proxy that requires alice/secret, accepts any CONNECT and then
+ * echoes the tunnel back instead of dialling out.
+ */
+async function fakeProxy(stall?: Stall): Promise<FakeProxy> {
+  const accepted: Socket[] = [];
+  const server = net.createServer(async (socket) => {
+    accepted.push(socket);
+    socket.on('error', () => {});
+    try {
+      const [, count] = await readBytes(socket, 2);
+      await readBytes(socket, count);
+      if (stall === 'greeting') return;
+      socket.write(Buffer.from([5, 0x02]));
+
+      const [, userLength] = await readBytes(socket, 2);
+      const user = (await readBytes(socket, userLength)).toString();
+      const [passLength] = await readBytes(socket, 1);
+      const pass = (await readBytes(socket, passLength)).toString();
+      if (user !== 'alice' || pass !== 'secret') {
+        socket.end(Buffer.from([1, 1]));
+        return;
+      }
+      socket.write(Buffer.from([1, 0]));
+
+      const [, , , type] = await readBytes(socket, 4);
+      if (type === 0x03) {
+        const [length] = await readBytes(socket, 1);
+        await readBytes(socket, length);
+      } else {
+        await readBytes(socket, type === 0x04 ? 16 : 4);
+      }
+      await readBytes(socket, 2);
+      if (stall === 'connect') return;
+      socket.write(Buffer.from([5, 0, 0, 1, 0, 0, 0, 0, 0, 0]));
+      socket.pipe(socket);
+    } catch {
+      socket.destroy();
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', () => resolve()));
+  const { port } = server.address() as AddressInfo;
+  return { server, url: `socks5://127.0.0.1:${port}`, accepted };
+}
+
+function closed(socket: Socket): Promise<void> {
+  return socket.destroyed ? Promise.resolve() : new Promise((resolve) => socket.once('close', () => resolve()));
+}
+
+async function until(check: () => boolean, ms = 1000): Promise<void> {
+  const deadline = Date.now() + ms;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error('timed out waiting');
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+async function echo(socket: Socket, text: string): Promise<string> {
+  const reply = readBytes(socket, Buffer.byteLength(text));
+  socket.write(text);
+  return (await reply).toString();
+}
+
+describe('connectSocks5', () => {
+  const servers: FakeProxy[] = [];
+
+  afterEach(async () => {
+    for (const { server, accepted } of servers.splice(0)) {
+      for (const socket of accepted) socket.destroy();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  async function proxy(stall?: Stall) {
+    const fake = await fakeProxy(stall);
+    servers.push(fake);
+    return fake;
+  }
+
+  it('authenticates and returns a working tunnel', async () => {
+    const { url } = await proxy();
+    const socket = await connectSocks5({ server: url, username: 'alice', password: 'secret' }, 'book.example', 443);
+
+    expect(await echo(socket, 'ping')).toBe('ping');
+    socket.destroy();
+  });
+
+  it('reports rejected credentials', async () => {
+    const { url } = await proxy();
+    await expect(
+      connectSocks5({ server: url, username: 'alice', password: 'wrong' }, 'book.example', 443)
+    ).rejects.toMatchObject({ code: 'ERR_SOCKS_AUTH' });
+  });
+
+  it('gives up on a proxy that stalls mid-handshake and closes the connection', async () => {
+    const { url, accepted } = await proxy('greeting');
+    await expect(
+      connectSocks5({ server: url, username: 'alice', password: 'secret' }, 'book.example', 443, undefined, 50)
+    ).rejects.toMatchObject({ code: 'ERR_SOCKS_TIMEOUT' });
+    await closed(accepted[0]);
+  });
+});
+
+describe('SocksRelay', () => {
+  const servers: FakeProxy[] = [];
+  const relays: SocksRelay[] = [];
+
+  afterEach(async () => {
+    for (const relay of relays.splice(0)) await relay.stop();
+    for (const { server, accepted } of servers.splice(0)) {
+      for (const socket of accepted) socket.destroy();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  async function relayTo(stall?: Stall, handshakeTimeoutMs?: number) {
+    const upstream = await fakeProxy(stall);
+    servers.push(upstream);
+    const relay = new SocksRelay({ server: upstream.url, username: 'alice', password: 'secret' }, handshakeTimeoutMs);
+    relays.push(relay);
+    return { relay, url: await relay.start(), upstream };
+  }
+
+  it('carries an unauthenticated client through the authenticated upstream', async () => {
+    const { url } = await relayTo();
+    const socket = await connectSocks5({ server: url }, 'book.example', 443);
+
+    expect(await echo(socket, 'hello')).toBe('hello');
+    socket.destroy();
+  });
+
+  it('answers a failed upstream login with a SOCKS failure reply', async () => {
+    const upstream = await fakeProxy();
+    servers.push(upstream);
+    const relay = new SocksRelay({ server: upstream.url, username: 'alice', password: 'wrong' });
+    relays.push(relay);
+
+    await expect(connectSocks5({ server: await relay.start() }, 'book.example', 443)).rejects.toMatchObject({
+      code: 'ERR_SOCKS_CONNECT',
+      reply: 1,
+    });
+  });
+
+  it('drops the upstream when the client disconnects mid-handshake', async () => {
+    const { url, upstream } = await relayTo('connect');
+    const client = net.connect(Number(new URL(url).port), '127.0.0.1');
+    client.on('error', () => {});
+    client.write(Buffer.from([5, 1, 0]));
+    await readBytes(client, 2);
+    client.write(Buffer.from([5, 1, 0, 3, 12, ...Buffer.from('book.example'), 1, 187]));
+
+    await until(() => upstream.accepted.length === 1);
+    client.destroy();
+    await closed(upstream.accepted[0]);
+  });
+
+  it('closes both ends when the handshake takes too long', async () => {
+    const { url, upstream } = await relayTo('connect', 50);
+    const client = net.connect(Number(new URL(url).port), '127.0.0.1');
+    client.on('error', () => {});
+    client.write(Buffer.from([5, 1, 0]));
+    await readBytes(client, 2);
+    client.write(Buffer.from([5, 1, 0, 3, 12, ...Buffer.from('book.example'), 1, 187]));
+
+    await Promise.all([closed(client), until(() => upstream.accepted.length === 1).then(() => closed(upstream.accepted[0]))]);
+  });
+});
@@ -0,0 +1,318 @@
+import net, { type AddressInfo, type Server, type Socket } from 'net';
+import type { ProxyConfig } from '../types/index.js';
+
+const SOCKS_VERSION = 5;
+const AUTH_NONE = 0x00;
+const AUTH_PASSWORD = 0x02;
+const CMD_CONNECT = 0x01;
+const ADDR_IPV4 = 0x01;
+const ADDR_DOMAIN = 0x03;
+const ADDR_IPV6 = 0x04;
+/** Longest a SOCKS handshake may take before both ends are dropped */
+const HANDSHAKE_TIMEOUT_MS = 15_000;
+
+/** SOCKS5 reply codes (RFC 1928 section 6) */
+const REPLY_MESSAGES: Record<number, string> = {
+  1: 'general failure',
+  2: 'connection not allowed by ruleset',
+  3: 'network unreachable',
+  4: 'host unreachable',
+  5: 'connection refused',
+  6: 'TTL expired',
+  7: 'command not supported',
+  8: 'address type not supported',
+};
+
+/** A SOCKS failure; `reply` is the upstream reply code when there was one */
+type SocksFailure = Error & { code: string; reply?: number };
+
+function socksError(message: string, code: string, reply?: number): SocksFailure {
+  return Object.assign(new Error(message), { code, reply });
+}
+
+/**
+ * Reads exact byte counts from a socket during a SOCKS handshake, then hands
+ * any bytes that arrived early back to the socket for whoever reads it next.
+ */
+class HandshakeReader {
+  private buffer = Buffer.alloc(0);
+  private waiting: { size: number; resolve: (bytes: Buffer) => void; reject: (err: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(private socket: Socket) {
+    socket.on('data', this.onData);
+    socket.on('error', this.onEnd);
+    socket.on('close', this.onEnd);
+  }
+
+  read(size: number): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      this.waiting = { size, resolve, reject };
+      this.flush();
+    });
+  }
+
+  /** Stop reading; the socket is left paused with unread bytes put back */
+  release(): void {
+    this.socket.off('data', this.onData);
+    this.socket.off('error', this.onEnd);
+    this.socket.off('close', this.onEnd);
+    this.socket.pause();
+    if (this.buffer.length) this.socket.unshift(this.buffer);
+  }
+
+  private onData = (chunk: Buffer): void => {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    this.flush();
+  };
+
+  private onEnd = (err?: Error | boolean): void => {
+    this.failure ??= err instanceof Error ? err : socksError('Connection closed during SOCKS handshake', 'ERR_SOCKS_CLOSED');
+    this.flush();
+  };
+
+  private flush(): void {
+    const waiting = this.waiting;
+    if (!waiting) return;
+    if (this.buffer.length >= waiting.size) {
+      this.waiting = null;
+      const bytes = this.buffer.subarray(0, waiting.size);
+      this.buffer = this.buffer.subarray(waiting.size);
+      waiting.resolve(bytes);
+    } else if (this.failure) {
+      this.waiting = null;
+      waiting.reject(this.failure);
+    }
+  }
+}
+
+function encodeAddress(host: string): Buffer {
+  if (net.isIPv4(host)) {
+    return Buffer.from([ADDR_IPV4, ...host.split('.').map(Number)]);
+  }
+  if (net.isIPv6(host)) {
+    const bytes = Buffer.alloc(17);
+    bytes[0] = ADDR_IPV6;
+    expandIpv6(host).forEach((group, i) => bytes.writeUInt16BE(group, 1 + i * 2));
+    return bytes;
+  }
+  const name = Buffer.from(host);
+  return Buffer.concat([Buffer.from([ADDR_DOMAIN, name.length]), name]);
+}
+
+function expandIpv6(address: string): number[] {
+  const [head, tail = ''] = address.split('::');
+  const parse = (part: string) => (part ? part.split(':').map((group) => parseInt(group, 16)) : []);
+  const start = parse(head);
+  const end = address.includes('::') ? parse(tail) : [];
+  return [...start, ...new Array(8 - start.length - end.length).fill(0), ...end];
+}
+
+/** Read a SOCKS5 address of the given type */
+async function readAddress(reader: HandshakeReader, type: number): Promise<string> {
+  if (type === ADDR_IPV4) {
+    return Array.from(await reader.read(4)).join('.');
+  }
+  if (type === ADDR_IPV6) {
+    const bytes = await reader.read(16);
+    return Array.from({ length: 8 }, (_, i) => bytes.readUInt16BE(i * 2).toString(16)).join(':');
+  }
+  if (type === ADDR_DOMAIN) {
+    const [length] = await reader.read(1);
+    return (await reader.read(length)).toString();
+  }
+  throw socksError(`Unknown SOCKS5 address type ${type}`, 'ERR_SOCKS_ADDRESS', 8);
+}
+
+/** Reply to a SOCKS5 client, with an empty bound address */
+function replyPacket(code: number): Buffer {
+  return Buffer.from([SOCKS_VERSION, code, 0, ADDR_IPV4, 0, 0, 0, 0, 0, 0]);
+}
+
+/**
+ * Open a TCP connection to host:port through a SOCKS5 proxy, authenticating
+ * with the proxy's username/password if it has them. The returned socket is
+ * paused and ready to carry the target protocol. A proxy that stalls for
+ * longer than timeoutMs before the tunnel is up is dropped.
+ */
+export async function connectSocks5(
+  proxy: ProxyConfig,
+  host: string,
+  port: number,
+  signal?: AbortSignal,
+  timeoutMs = HANDSHAKE_TIMEOUT_MS
+): Promise<Socket> {
+  const proxyUrl = new URL(proxy.server);
+  const socket = net.connect({ host: proxyUrl.hostname, port: Number(proxyUrl.port) || 1080 });
+  const reader = new HandshakeReader(socket);
+  const abort = () => socket.destroy(socksError('SOCKS5 connect aborted', 'ABORT_ERR'));
+  signal?.addEventListener('abort', abort, { once: true });
+  const timeout = socksError(`SOCKS5 handshake timed out after ${timeoutMs}ms`, 'ERR_SOCKS_TIMEOUT');
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    socket.destroy(timeout);
+  }, timeoutMs);
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      socket.once('connect', resolve);
+      socket.once('error', reject);
+    });
+
+    const methods = proxy.username ? [AUTH_NONE, AUTH_PASSWORD] : [AUTH_NONE];
+    socket.write(Buffer.from([SOCKS_VERSION, methods.length, ...methods]));
+    const [version, method] = await reader.read(2);
+    if (version !== SOCKS_VERSION) {
+      throw socksError('Proxy did not answer as a SOCKS5 server', 'ERR_SOCKS_VERSION');
+    }
+
+    if (method === AUTH_PASSWORD && proxy.username) {
+      // Username/password sub-negotiation (RFC 1929)
+      const user = Buffer.from(proxy.username);
+      const pass = Buffer.from(proxy.password ?? '');
+      socket.write(Buffer.concat([Buffer.from([1, user.length]), user, Buffer.from([pass.length]), pass]));
+      const [, status] = await reader.read(2);
+      if (status !== 0) {
+        throw socksError('SOCKS5 proxy rejected the credentials', 'ERR_SOCKS_AUTH');
+      }
+    } else if (method !== AUTH_NONE) {
+      throw socksError(
+        proxy.username ? 'SOCKS5 proxy offered no supported auth method' : 'SOCKS5 proxy requires credentials',
+        'ERR_SOCKS_AUTH'
+      );
+    }
+
+    const portBytes = Buffer.alloc(2);
+    portBytes.writeUInt16BE(port);
+    socket.write(Buffer.concat([Buffer.from([SOCKS_VERSION, CMD_CONNECT, 0]), encodeAddress(host), portBytes]));
+
+    const [, reply, , type] = await reader.read(4);
+    if (reply !== 0) {
+      const reason = REPLY_MESSAGES[reply] ?? `reply ${reply}`;
+      throw socksError(`SOCKS5 proxy could not reach ${host}:${port}: ${reason}`, 'ERR_SOCKS_CONNECT', reply);
+    }
+    // Skip the bound address and port the proxy reports
+    await readAddress(reader, type);
+    await reader.read(2);
+
+    reader.release();
+    return socket;
+  } catch (err) {
+    socket.destroy();
+    if (signal?.aborted) throw socksError('SOCKS5 connect aborted', 'ABORT_ERR');
+    throw timedOut ? timeout : err;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', abort);
+  }
+}
+
+/**
+ * A SOCKS5 server on a loopback port that forwards every connection through an
+ * upstream SOCKS5 proxy, adding the upstream's username/password. Chrome
+ * cannot authenticate to SOCKS proxies, so it is pointed at the relay instead.
+ */
+export class SocksRelay {
+  private server: Server | null = null;
+  private sockets: Set<Socket> = new Set();
+
+  constructor(
+    private upstream: ProxyConfig,
+    private handshakeTimeoutMs = HANDSHAKE_TIMEOUT_MS
+  ) {}
+
+  /** Proxy URL for Chrome, e.g. "socks5://127.0.0.1:53121" */
+  get url(): string {
+    if (!this.server) {
+      throw new Error('SOCKS relay is not running');
+    }
+    const { port } = this.server.address() as AddressInfo;
+    return `socks5://127.0.0.1:${port}`;
+  }
+
+  /** Listen on a free loopback port */
+  async start(): Promise<string> {
+    if (this.server) return this.url;
+
+    const server = net.createServer((client) => {
+      this.handle(client).catch(() => {
+        // Handshake failures are answered on the client socket itself
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(0, '127.0.0.1', () => resolve());
+    });
+    this.server = server;
+    return this.url;
+  }
+
+  /** Stop listening and drop every open tunnel */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+    this.sockets.clear();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  private async handle(client: Socket): Promise<void> {
+    this.track(client);
+    const reader = new HandshakeReader(client);
+    // A client that goes away mid-handshake takes the half-open upstream with it
+    const handshake = new AbortController();
+    const abort = () => handshake.abort();
+    client.once('close', abort);
+    // Covers both legs: dropping the client aborts the upstream handshake too
+    const timer = setTimeout(() => client.destroy(), this.handshakeTimeoutMs);
+
+    try {
+      const [version, count] = await reader.read(2);
+      if (version !== SOCKS_VERSION) {
+        throw socksError('Not a SOCKS5 client', 'ERR_SOCKS_VERSION');
+      }
+      await reader.read(count);
+      // No auth needed here - only local processes can reach the loopback port
+      client.write(Buffer.from([SOCKS_VERSION, AUTH_NONE]));
+
+      const [, command, , type] = await reader.read(4);
+      const host = await readAddress(reader, type);
+      const port = (await reader.read(2)).readUInt16BE(0);
+      if (command !== CMD_CONNECT) {
+        throw socksError(`SOCKS5 command ${command} is not supported`, 'ERR_SOCKS_COMMAND', 7);
+      }
+
+      const upstream = await connectSocks5(this.upstream, host, port, handshake.signal, this.handshakeTimeoutMs);
+      this.track(upstream);
+      upstream.once('close', () => client.destroy());
+      client.once('close', () => upstream.destroy());
+      if (client.destroyed) {
+        upstream.destroy();
+        return;
+      }
+
+      client.write(replyPacket(0));
+      reader.release();
+      client.pipe(upstream).pipe(client);
+    } catch (err) {
+      if (client.writable) {
+        client.end(replyPacket((err as SocksFailure).reply ?? 1));
+      }
+      throw err;
+    } finally {
+      clearTimeout(timer);
+      client.off('close', abort);
+    }
+  }
+
+  private track(socket: Socket): void {
+    this.sockets.add(socket);
+    socket.on('error', () => socket.destroy());
+    socket.once('close', () => this.sockets.delete(socket));
+  }
+}
@@ -0,0 +1,120 @@
+import { chromium, type LaunchOptions } from 'playwright';
+import { existsSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import type { LaunchProfile } from '../types/index.js';
+
+/** Args applied to every launch unless a profile turns them off */
+const DEFAULT_ARGS = [
+  '--disable-blink-features=AutomationControlled', // Hide automation detection
+];
+const DEFAULT_IGNORED_ARGS = ['--enable-automation'];
+
+/** Where system Chrome/Chromium usually lives, per platform */
+function systemChromeCandidates(): string[] {
+  switch (process.platform) {
+    case 'darwin':
+      return [
+        '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
+        join(homedir(), 'Applications/Google Chrome.app/Contents/MacOS/Google Chrome'),
+        '/Applications/Chromium.app/Contents/MacOS/Chromium',
+      ];
+    case 'win32':
+      return [
+        join(process.env['PROGRAMFILES'] ?? 'C:\\Program Files', 'Google\\Chrome\\Application\\chrome.exe'),
+        join(process.env['PROGRAMFILES(X86)'] ?? 'C:\\Program Files (x86)', 'Google\\Chrome\\Application\\chrome.exe'),
+        join(process.env['LOCALAPPDATA'] ?? '', 'Google\\Chrome\\Application\\chrome.exe'),
+      ];
+    default:
+      return [
+        '/usr/bin/google-chrome',
+        '/usr/bin/google-chrome-stable',
+        '/opt/google/chrome/chrome',
+        '/usr/bin/chromium',
+        '/usr/bin/chromium-browser',
+        '/snap/bin/chromium',
+      ];
+  }
+}
+
+/** The browser a profile resolved to */
+export interface ResolvedBrowser {
+  executablePath?: string;
+  channel?: string;
+  /** Human-readable description, shown in BrowserInfo */
+  description: string;
+}
+
+/**
+ * Pick the browser to launch, first match wins:
+ * 1. profile.executablePath, then $CHROME_EXECUTABLE_PATH (must exist)
+ * 2. profile.channel, then $CHROME_CHANNEL (e.g. "chrome", "msedge")
+ * 3. Playwright's bundled Chromium when profile.bundled is set
+ * 4. System Chrome/Chromium in the usual install locations
+ * 5. Playwright's bundled Chromium, if installed
+ * Throws an error listing everything tried when none is found.
+ */
+export function resolveBrowser(profile: LaunchProfile = {}): ResolvedBrowser {
+  const tried: string[] = [];
+
+  // An explicit path that is wrong is a config mistake - don't quietly launch something else
+  const explicit = profile.executablePath ?? process.env.CHROME_EXECUTABLE_PATH;
+  if (explicit) {
+    if (existsSync(explicit)) {
+      return { executablePath: explicit, description: `executable ${explicit}` };
+    }
+    throw new Error(`No browser found. Tried:\n  - executablePath ${explicit} (file does not exist)`);
+  }
+
+  const channel = profile.channel ?? process.env.CHROME_CHANNEL;
+  if (channel) {
+    return { channel, description: `channel ${channel}` };
+  }
+
+  const bundled = chromium.executablePath();
+  if (profile.bundled) {
+    if (existsSync(bundled)) {
+      return { executablePath: bundled, description: `bundled Chromium ${bundled}` };
+    }
+    tried.push(`bundled Chromium ${bundled} (not installed - run "npx playwright install chromium")`);
+  }
+
+  for (const candidate of systemChromeCandidates()) {
+    if (existsSync(candidate)) {
+      return { executablePath: candidate, description: `system Chrome ${candidate}` };
+    }
+    tried.push(`system Chrome ${candidate}`);
+  }
+
+  if (!profile.bundled) {
+    if (existsSync(bundled)) {
+      return { executablePath: bundled, description: `bundled Chromium ${bundled}` };
+    }
+    tried.push(`bundled Chromium ${bundled} (not installed)`);
+  }
+
+  throw new Error(
+    `No browser found. Tried:\n  - ${tried.join('\n  - ')}\n` +
+      'Set launchProfile.executablePath or CHROME_EXECUTABLE_PATH, or pick a Playwright channel.'
+  );
+}
+
+/** Merge a profile's args with the defaults into Playwright launch options */
+export function buildLaunchOptions(profile: LaunchProfile = {}): LaunchOptions & { description: string } {
+  const { executablePath, channel, description } = resolveBrowser(profile);
+
+  let ignoreDefaultArgs: string[] | boolean;
+  if (typeof profile.ignoreDefaultArgs === 'boolean') {
+    ignoreDefaultArgs = profile.ignoreDefaultArgs;
+  } else {
+    ignoreDefaultArgs = [...new Set([...DEFAULT_IGNORED_ARGS, ...(profile.ignoreDefaultArgs ?? [])])];
+  }
+
+  return {
+    executablePath,
+    channel,
+    args: [...new Set([...DEFAULT_ARGS, ...(profile.args ?? [])])],
+    ignoreDefaultArgs,
+    description,
+  };
+}
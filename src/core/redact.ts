@@ -0,0 +1,145 @@
+import { readFile, writeFile } from 'fs/promises';
+import JSZip from 'jszip';
+
+/** Put in place of anything removed from a recording */
+export const REDACTED = '[redacted]';
+
+/** Headers that carry credentials or session state; dropped from recordings */
+const SENSITIVE_HEADERS = new Set(['authorization', 'proxy-authorization', 'cookie', 'set-cookie']);
+
+/** Form and JSON field names whose values are credentials */
+const SENSITIVE_FIELD = /pass|pwd|secret|token|otp|credential/i;
+
+type NameValue = { name: string; value: string };
+
+/** Drop credential and cookie headers */
+export function redactHeaders<T extends NameValue>(headers: T[]): T[] {
+  return headers.filter((header) => !SENSITIVE_HEADERS.has(header.name.toLowerCase()));
+}
+
+/**
+ * Blank the credential fields of a form or JSON request body, then any known
+ * secret (e.g. the site password) wherever it still appears.
+ */
+export function redactPostData(text: string, mimeType: string, secrets: string[] = []): string {
+  if (/x-www-form-urlencoded/i.test(mimeType)) {
+    const params = new URLSearchParams(text);
+    for (const key of new Set(params.keys())) {
+      if (SENSITIVE_FIELD.test(key)) params.set(key, REDACTED);
+    }
+    text = params.toString();
+  } else if (/json/i.test(mimeType)) {
+    try {
+      text = JSON.stringify(redactFields(JSON.parse(text)));
+    } catch {
+      // Not valid JSON after all - fall back to scrubbing known secrets
+    }
+  }
+  return scrubSecrets(text, secrets);
+}
+
+/** Replace every known secret, raw or in its URL/JSON-escaped forms */
+export function scrubSecrets(text: string, secrets: string[]): string {
+  for (const form of secretForms(secrets)) {
+    text = text.split(form).join(REDACTED);
+  }
+  return text;
+}
+
+/**
+ * Rewrite a Playwright trace.zip in place with credential headers, cookies,
+ * form/JSON credential fields and known secrets removed. DOM snapshots and
+ * action parameters (e.g. a fill() of the password) are covered by the
+ * known-secret pass, which runs over every file in the archive.
+ */
+export async function redactTrace(path: string, secrets: string[] = []): Promise<void> {
+  const zip = await JSZip.loadAsync(await readFile(path));
+  // Request bodies too large to inline are stored as resources/<sha1>
+  const bodies = new Map<string, string>();
+
+  for (const file of Object.values(zip.files)) {
+    if (file.dir || !file.name.endsWith('.network')) continue;
+    const lines = (await file.async('string')).split('\n').map((line) => {
+      if (!line.trim()) return line;
+      try {
+        const event = JSON.parse(line);
+        if (event.type === 'resource-snapshot' && event.snapshot) {
+          redactHarEntry(event.snapshot, secrets);
+          const postData = event.snapshot.request?.postData;
+          if (postData?._sha1) bodies.set(`resources/${postData._sha1}`, postData.mimeType ?? '');
+        }
+        return JSON.stringify(event);
+      } catch {
+        return line;
+      }
+    });
+    zip.file(file.name, lines.join('\n'));
+  }
+
+  const forms = secretForms(secrets).map((form) => Buffer.from(form));
+  for (const file of Object.values(zip.files)) {
+    if (file.dir) continue;
+    let content = await file.async('nodebuffer');
+    const mimeType = bodies.get(file.name);
+    if (mimeType !== undefined) {
+      content = Buffer.from(redactPostData(content.toString('utf-8'), mimeType, secrets));
+    }
+    // Byte-level, so binary resources survive untouched unless they hold a secret
+    if (forms.some((form) => content.includes(form))) {
+      content = Buffer.from(scrubSecrets(content.toString('latin1'), forms.map((form) => form.toString('latin1'))), 'latin1');
+    }
+    zip.file(file.name, content);
+  }
+
+  await writeFile(path, await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' }));
+}
+
+/** Strip credentials from a HAR-shaped entry (Playwright's trace network events use the same shape) */
+function redactHarEntry(
+  entry: {
+    request?: { headers?: NameValue[]; cookies?: unknown[]; postData?: { mimeType?: string; text?: string; params?: NameValue[] } };
+    response?: { headers?: NameValue[]; cookies?: unknown[] };
+  },
+  secrets: string[]
+): void {
+  for (const part of [entry.request, entry.response]) {
+    if (!part) continue;
+    if (part.headers) part.headers = redactHeaders(part.headers);
+    if (part.cookies) part.cookies = [];
+  }
+
+  const postData = entry.request?.postData;
+  if (postData?.text) {
+    postData.text = redactPostData(postData.text, postData.mimeType ?? '', secrets);
+  }
+  if (postData?.params) {
+    postData.params = postData.params.map(({ name, value }) => ({
+      name,
+      value: SENSITIVE_FIELD.test(name) ? REDACTED : scrubSecrets(value, secrets),
+    }));
+  }
+}
+
+function redactFields(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redactFields);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, field]) => [key, SENSITIVE_FIELD.test(key) ? REDACTED : redactFields(field)])
+    );
+  }
+  return value;
+}
+
+/** A secret as it may appear in a URL-encoded form, a JSON string or raw text */
+function secretForms(secrets: string[]): string[] {
+  const forms = new Set<string>();
+  for (const secret of secrets) {
+    if (!secret) continue;
+    forms.add(secret);
+    forms.add(encodeURIComponent(secret));
+    forms.add(new URLSearchParams({ s: secret }).toString().slice(2));
+    forms.add(JSON.stringify(secret).slice(1, -1));
+  }
+  // Longest first, so an escaped form is not half-replaced by a shorter one
+  return [...forms].sort((a, b) => b.length - a.length);
+}
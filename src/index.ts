@@ -1,26 +1,86 @@
 // Core exports
-export { BrowserManager } from './core/BrowserManager.js';
+export { BrowserManager, ProfileInUseError } from './core/BrowserManager.js';
 export { BrowserInstance } from './core/BrowserInstance.js';
+export { resolveBrowser, buildLaunchOptions } from './core/launchProfile.js';
+export { ActionQueue } from './core/ActionQueue.js';
+export { DownloadStore } from './core/DownloadStore.js';
+export { RunArtifacts } from './core/RunArtifacts.js';
+export { HarRecorder } from './core/HarRecorder.js';
+export { PageLog } from './core/PageLog.js';
+export { RequestBlocker, BLOCKING_PRESETS, resolveBlockingRules } from './core/RequestBlocker.js';
+export { SocksRelay, connectSocks5 } from './core/SocksRelay.js';
+export { parseProxy, normalizeProxy, needsSocksRelay, PROXY_PROTOCOLS } from './core/proxyUrl.js';
+export type { ActionOptions, QueuedAction } from './core/ActionQueue.js';
+export type { RetentionLimits, ActiveRun } from './core/RunArtifacts.js';
+export type { PageLogQuery } from './core/PageLog.js';
+export type { ResolvedBrowser } from './core/launchProfile.js';
 export { SessionManager } from './session/SessionManager.js';
+export { ProfileManager } from './session/ProfileManager.js';
+export type { ProfileInfo } from './session/ProfileManager.js';
 
 // Workflow exports
 export { BaseSiteWorkflow, WorkflowManager, ExampleWorkflow } from './workflows/index.js';
 
+// Storage exports
+export {
+  SqliteBetRepository,
+  PostgresBetSink,
+  importJsonCache,
+  toScrapedItem,
+  exportBets,
+  toExportRow,
+} from './storage/index.js';
+export type {
+  BetRepository,
+  BetQuery,
+  SaveBetsResult,
+  DedupeResult,
+  FetchRun,
+  BalanceSnapshot,
+  BetSink,
+  BetSinkResult,
+  ExportFormat,
+} from './storage/index.js';
+
+// Report exports
+export { buildPnlReport } from './reports/index.js';
+export type { PnlGroupBy, PnlRow, PnlReport } from './reports/index.js';
+
 // API exports
 export { ApiServer } from './api/server.js';
 
 // Type exports
 export type {
   ProxyConfig,
+  ProxyHealth,
+  ProxyPoolStrategy,
+  ResolvedProxyPool,
+  LaunchProfile,
   BrowserInstanceConfig,
   SessionData,
   BrowserStatus,
   BrowserInfo,
+  PageInfo,
+  DownloadInfo,
+  DialogPolicy,
+  PageLogType,
+  PageLogEntry,
+  BlockingPreset,
+  BlockingRules,
+  BlockedCounts,
   ScrapeResult,
   BrowserEventType,
   BrowserEvent,
   SiteConfig,
   WorkflowResult,
+  ExitIpPin,
+  ExitIpRecord,
+  RecordingOptions,
+  RunInfo,
   ISiteWorkflow,
   ScrapedItem,
+  BetStatus,
+  TicketType,
+  BetLeg,
+  NormalizedBet,
 } from './types/index.js';
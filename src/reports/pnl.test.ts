@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { buildPnlReport } from './pnl.js';
+import { normalizeBet } from '../bets/index.js';
+
+function bet(siteId: string, fields: Record<string, unknown>) {
+  return normalizeBet(siteId, { selection: 'Pick', stake: 100, odds: '2.0', ...fields });
+}
+
+const BETS = [
+  bet('pinnacle', { status: 'Won', toWin: 100, sport: 'Soccer', placedAt: '2026-01-05T12:00:00.000Z' }),
+  bet('pinnacle', { status: 'Lost', toWin: 100, sport: 'Soccer', placedAt: '2026-01-06T12:00:00.000Z' }),
+  bet('pinnacle', { status: 'Won', stake: 50, odds: '3.0', toWin: 100, sport: 'Tennis', placedAt: '2026-02-01T12:00:00.000Z' }),
+  bet('betonline', { status: 'Push', toWin: 100, sport: 'Basketball', placedAt: '2026-01-10T12:00:00.000Z' }),
+  bet('betonline', { status: 'Void', toWin: 100, sport: 'Basketball', placedAt: '2026-01-11T12:00:00.000Z' }),
+  bet('betonline', { status: 'Pending', stake: 500, toWin: 500, sport: 'Basketball', placedAt: '2026-02-02T12:00:00.000Z' }),
+];
+
+describe('buildPnlReport', () => {
+  it('adds up known totals', () => {
+    const { totals, groups } = buildPnlReport(BETS);
+
+    expect(groups).toEqual([]);
+    expect(totals).toEqual({
+      key: {},
+      counts: { total: 6, settled: 5, pending: 1, won: 2, lost: 1, push: 1, void: 1, cashout: 0 },
+      // Won 100 + lost 100 + won 50 + push 100; the void stake and the pending bet are left out
+      turnover: 350,
+      netProfit: 100,
+      roi: 28.57,
+      winRate: 66.67,
+      avgOddsDecimal: 2.2,
+      avgOddsAmerican: 120,
+    });
+  });
+
+  it('leaves pending bets out of profit and turnover', () => {
+    const { totals } = buildPnlReport([bet('s', { status: 'Pending', toWin: 100 })]);
+
+    expect(totals).toMatchObject({ turnover: 0, netProfit: 0, roi: null, winRate: null, avgOddsDecimal: null });
+    expect(totals.counts).toMatchObject({ total: 1, settled: 0, pending: 1 });
+  });
+
+  it('counts pushes and voids as zero profit', () => {
+    const { groups } = buildPnlReport(BETS, ['site']);
+    const betonline = groups.find((group) => group.key.site === 'betonline')!;
+
+    expect(betonline).toMatchObject({ turnover: 100, netProfit: 0, roi: 0, winRate: null });
+    expect(betonline.counts).toMatchObject({ settled: 2, push: 1, void: 1, pending: 1 });
+  });
+
+  it('groups by several dimensions in key order', () => {
+    const { groups } = buildPnlReport(BETS, ['site', 'month']);
+
+    expect(groups.map((group) => [group.key, group.netProfit])).toEqual([
+      [{ site: 'betonline', month: '2026-01' }, 0],
+      [{ site: 'betonline', month: '2026-02' }, 0],
+      [{ site: 'pinnacle', month: '2026-01' }, 0],
+      [{ site: 'pinnacle', month: '2026-02' }, 100],
+    ]);
+  });
+
+  it.each([
+    ['2026-01-01T12:00:00.000Z', '2026-W01'],
+    ['2027-01-01T12:00:00.000Z', '2026-W53'],
+    ['2024-12-30T12:00:00.000Z', '2025-W01'],
+  ])('puts %s in ISO week %s', (placedAt, week) => {
+    const { groups } = buildPnlReport([bet('s', { status: 'Won', toWin: 100, placedAt })], ['week']);
+    expect(groups[0].key.week).toBe(week);
+  });
+});
@@ -0,0 +1,140 @@
+import { round2, decimalToAmerican } from '../bets/index.js';
+import type { NormalizedBet, BetStatus } from '../types/index.js';
+
+/** Dimensions a P&L report can be grouped by */
+export type PnlGroupBy = 'site' | 'sport' | 'league' | 'betType' | 'day' | 'week' | 'month';
+
+export const PNL_GROUP_BY: PnlGroupBy[] = ['site', 'sport', 'league', 'betType', 'day', 'week', 'month'];
+
+/** Figures for one group (or the whole report) */
+export interface PnlRow {
+  /** Group values keyed by dimension, e.g. { site: 'pinnacle', month: '2026-01' } */
+  key: Partial<Record<PnlGroupBy, string>>;
+  /** Bets in the group, by status */
+  counts: Record<BetStatus, number> & { total: number; settled: number };
+  /** Stake on settled bets, excluding voids */
+  turnover: number;
+  /** Sum of profit on settled bets */
+  netProfit: number;
+  /** netProfit / turnover as a percentage (null with no turnover) */
+  roi: number | null;
+  /** won / (won + lost) as a percentage (null with no decided bets) */
+  winRate: number | null;
+  /** Mean decimal odds of settled bets, with its American equivalent */
+  avgOddsDecimal: number | null;
+  avgOddsAmerican: number | null;
+}
+
+export interface PnlReport {
+  groupBy: PnlGroupBy[];
+  totals: PnlRow;
+  groups: PnlRow[];
+}
+
+const UNKNOWN = 'Unknown';
+
+/** Group value for a bet; periods use the placed time in UTC */
+function groupValue(bet: NormalizedBet, by: PnlGroupBy): string {
+  switch (by) {
+    case 'site':
+      return bet.siteId;
+    case 'sport':
+      return bet.sport ?? UNKNOWN;
+    case 'league':
+      return bet.league ?? UNKNOWN;
+    case 'betType':
+      return bet.ticketType;
+    case 'day':
+      return bet.placedAt?.slice(0, 10) ?? UNKNOWN;
+    case 'week':
+      return bet.placedAt ? isoWeek(new Date(bet.placedAt)) : UNKNOWN;
+    case 'month':
+      return bet.placedAt?.slice(0, 7) ?? UNKNOWN;
+  }
+}
+
+/** ISO-8601 week label, e.g. "2026-W03" (weeks start Monday) */
+function isoWeek(date: Date): string {
+  const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const day = d.getUTCDay() || 7;
+  // The Thursday of this week decides which year the week belongs to
+  d.setUTCDate(d.getUTCDate() + 4 - day);
+  const yearStart = Date.UTC(d.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((d.getTime() - yearStart) / 86400000 + 1) / 7);
+  return `${d.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+}
+
+/** Add up one group of bets */
+function summarize(key: PnlRow['key'], bets: NormalizedBet[]): PnlRow {
+  const counts: PnlRow['counts'] = {
+    total: bets.length,
+    settled: 0,
+    pending: 0,
+    won: 0,
+    lost: 0,
+    push: 0,
+    void: 0,
+    cashout: 0,
+  };
+  let turnover = 0;
+  let netProfit = 0;
+  let oddsSum = 0;
+  let oddsCount = 0;
+
+  for (const bet of bets) {
+    counts[bet.status]++;
+    if (bet.status === 'pending') continue;
+
+    counts.settled++;
+    netProfit += bet.profit ?? 0;
+    if (bet.status !== 'void') turnover += bet.stake;
+    if (bet.oddsDecimal !== null) {
+      oddsSum += bet.oddsDecimal;
+      oddsCount++;
+    }
+  }
+
+  const decided = counts.won + counts.lost;
+  const avgOddsDecimal = oddsCount ? Math.round((oddsSum / oddsCount) * 1000) / 1000 : null;
+
+  return {
+    key,
+    counts,
+    turnover: round2(turnover),
+    netProfit: round2(netProfit),
+    roi: turnover ? round2((netProfit / turnover) * 100) : null,
+    winRate: decided ? round2((counts.won / decided) * 100) : null,
+    avgOddsDecimal,
+    avgOddsAmerican: avgOddsDecimal && avgOddsDecimal > 1 ? decimalToAmerican(avgOddsDecimal) : null,
+  };
+}
+
+/**
+ * Profit & loss over a set of bets, grouped by any mix of dimensions.
+ * Groups are sorted by key, so period groupings come out in date order.
+ */
+export function buildPnlReport(bets: NormalizedBet[], groupBy: PnlGroupBy[] = []): PnlReport {
+  const groups = new Map<string, { key: PnlRow['key']; bets: NormalizedBet[] }>();
+
+  for (const bet of bets) {
+    const key: PnlRow['key'] = {};
+    for (const by of groupBy) {
+      key[by] = groupValue(bet, by);
+    }
+
+    const id = groupBy.map((by) => key[by]).join('\u0000');
+    const group = groups.get(id) ?? { key, bets: [] };
+    group.bets.push(bet);
+    groups.set(id, group);
+  }
+
+  const rows = [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([, group]) => summarize(group.key, group.bets));
+
+  return {
+    groupBy,
+    totals: summarize({}, bets),
+    groups: groupBy.length ? rows : [],
+  };
+}
@@ -0,0 +1,131 @@
+import { readdir, mkdir, rm, cp, stat } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join, resolve } from 'path';
+
+const DEFAULT_PROFILES_DIR = './profiles';
+
+/** Chrome's lock files - present while a browser has the profile open */
+const LOCK_FILES = ['SingletonLock', 'SingletonSocket', 'SingletonCookie'];
+
+export interface ProfileInfo {
+  name: string;
+  /** Absolute path, usable as BrowserInstanceConfig.userDataDir */
+  path: string;
+  createdAt: string;
+  sizeBytes: number;
+  /** Chrome's lock file is present (may be stale after a crash) */
+  locked: boolean;
+}
+
+/**
+ * Manages persistent Chrome user data directories, one per profile name.
+ * Unlike SessionManager snapshots, these keep everything Chrome stores:
+ * IndexedDB, service workers, trusted-device cookies, cache.
+ */
+export class ProfileManager {
+  private profilesDir: string;
+
+  constructor(profilesDir?: string) {
+    this.profilesDir = profilesDir ?? DEFAULT_PROFILES_DIR;
+  }
+
+  /** Absolute directory for a profile (whether or not it exists yet) */
+  getProfilePath(name: string): string {
+    // Sanitize profile name for filesystem
+    const safeName = name.replace(/[^a-zA-Z0-9_-]/g, '_');
+    return resolve(this.profilesDir, safeName);
+  }
+
+  /** Check if a profile exists */
+  async exists(name: string): Promise<boolean> {
+    return existsSync(this.getProfilePath(name));
+  }
+
+  /** Create an empty profile, returning its path (no-op if it exists) */
+  async create(name: string): Promise<string> {
+    const path = this.getProfilePath(name);
+    await mkdir(path, { recursive: true });
+    return path;
+  }
+
+  /** Copy a profile to a new name, leaving out Chrome's lock files */
+  async clone(source: string, target: string): Promise<string> {
+    const from = this.getProfilePath(source);
+    const to = this.getProfilePath(target);
+
+    if (!existsSync(from)) {
+      throw new Error(`Profile "${source}" not found`);
+    }
+    if (existsSync(to)) {
+      throw new Error(`Profile "${target}" already exists`);
+    }
+
+    await cp(from, to, {
+      recursive: true,
+      filter: (src) => !LOCK_FILES.some((lock) => src.endsWith(lock)),
+    });
+    return to;
+  }
+
+  /** Wipe a profile back to empty, keeping the directory */
+  async reset(name: string): Promise<string> {
+    const path = this.getProfilePath(name);
+    if (!existsSync(path)) {
+      throw new Error(`Profile "${name}" not found`);
+    }
+
+    await rm(path, { recursive: true, force: true });
+    await mkdir(path, { recursive: true });
+    return path;
+  }
+
+  /** Delete a profile directory */
+  async delete(name: string): Promise<boolean> {
+    const path = this.getProfilePath(name);
+    if (!existsSync(path)) return false;
+
+    await rm(path, { recursive: true, force: true });
+    return true;
+  }
+
+  /** Get profile details */
+  async get(name: string): Promise<ProfileInfo | null> {
+    const path = this.getProfilePath(name);
+    if (!existsSync(path)) return null;
+
+    const info = await stat(path);
+    return {
+      name,
+      path,
+      createdAt: info.birthtime.toISOString(),
+      sizeBytes: await this.directorySize(path),
+      locked: LOCK_FILES.some((lock) => existsSync(join(path, lock))),
+    };
+  }
+
+  /** List all profiles with details */
+  async list(): Promise<ProfileInfo[]> {
+    if (!existsSync(this.profilesDir)) return [];
+
+    const entries = await readdir(this.profilesDir, { withFileTypes: true });
+    const profiles = await Promise.all(
+      entries.filter((entry) => entry.isDirectory()).map((entry) => this.get(entry.name))
+    );
+    return profiles.filter((profile): profile is ProfileInfo => profile !== null);
+  }
+
+  /** Total size of regular files under a directory */
+  private async directorySize(dir: string): Promise<number> {
+    let total = 0;
+    const entries = await readdir(dir, { withFileTypes: true });
+    for (const entry of entries) {
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        total += await this.directorySize(path);
+      } else if (entry.isFile()) {
+        total += (await stat(path)).size;
+      }
+    }
+    return total;
+  }
+}
@@ -0,0 +1,102 @@
+import type { NormalizedBet, BetStatus } from '../types/index.js';
+
+/** Filters for reading bets back out of the store */
+export interface BetQuery {
+  /** Only bets from this site */
+  siteId?: string;
+  /** Placed on or after (ISO date or timestamp) */
+  from?: string;
+  /** Placed on or before (ISO date or timestamp, a bare date covers the whole day) */
+  to?: string;
+  /** Only bets with this status */
+  status?: BetStatus;
+  /** Max rows to return (newest first) */
+  limit?: number;
+  /** Rows to skip (for paging) */
+  offset?: number;
+}
+
+/** Outcome of saving a batch of bets */
+export interface SaveBetsResult {
+  /** Bets that were not in the store before */
+  added: number;
+  /** Stored bets whose status, profit or settled time changed */
+  updated: number;
+  /** Total bets stored for the site afterwards */
+  total: number;
+}
+
+/** Outcome of folding a site's duplicate bets together */
+export interface DedupeResult {
+  /** Duplicate rows that were folded into another */
+  removed: number;
+  /** Bets left for the site */
+  total: number;
+}
+
+/** One history fetch, successful or not */
+export interface FetchRun {
+  id?: number;
+  siteId: string;
+  startedAt: string;
+  finishedAt: string;
+  /** Requested range (YYYY-MM-DD) */
+  fromDate: string | null;
+  toDate: string | null;
+  success: boolean;
+  /** Rows returned by the scraper */
+  fetched: number;
+  /** Rows new to the store */
+  added: number;
+  error: string | null;
+}
+
+/** Account balance at a point in time */
+export interface BalanceSnapshot {
+  id?: number;
+  siteId: string;
+  balance: number;
+  currency: string;
+  recordedAt: string;
+}
+
+/**
+ * Storage for scraped bets, fetch runs and balance snapshots.
+ * Implementations must make saveBets() safe to call concurrently.
+ */
+export interface BetRepository {
+  /**
+   * Store bets for a site.
+   * A bet already stored under the same betId (or, without one, the same fingerprint)
+   * is updated when its status, profit or settled time changed, and the values it
+   * replaced are kept in its change history.
+   */
+  saveBets(siteId: string, bets: NormalizedBet[]): Promise<SaveBetsResult>;
+
+  /** Collapse ID-less duplicates stored before fingerprint matching */
+  dedupeBets(siteId: string): Promise<DedupeResult>;
+
+  /** Read bets back, newest first */
+  getBets(query?: BetQuery): Promise<NormalizedBet[]>;
+
+  /** Count bets matching a query (ignores limit/offset) */
+  countBets(query?: BetQuery): Promise<number>;
+
+  /** When bets for a site were last saved (null if never) */
+  getLastUpdated(siteId: string): Promise<string | null>;
+
+  /** Record a history fetch */
+  recordFetchRun(run: FetchRun): Promise<FetchRun>;
+
+  /** Most recent fetch runs, optionally for one site */
+  listFetchRuns(siteId?: string, limit?: number): Promise<FetchRun[]>;
+
+  /** Record an account balance */
+  recordBalance(snapshot: BalanceSnapshot): Promise<BalanceSnapshot>;
+
+  /** Balance history for a site, newest first */
+  listBalances(siteId: string, limit?: number): Promise<BalanceSnapshot[]>;
+
+  /** Release the underlying connection */
+  close(): Promise<void>;
+}
@@ -0,0 +1,36 @@
+import type { NormalizedBet, ScrapedItem } from '../types/index.js';
+
+/** Outcome of writing a batch to a sink */
+export interface BetSinkResult {
+  /** Rows inserted or updated */
+  written: number;
+  /** Rows that could not be keyed (no ticket ID) and were left out */
+  skipped: number;
+}
+
+/**
+ * A downstream destination for scraped bets (e.g. the BB-CBB Postgres database).
+ * Sinks receive every successful history fetch after it is saved locally.
+ */
+export interface BetSink {
+  /** Name shown in logs and API responses */
+  readonly name: string;
+
+  /** Write bets for a site; must be idempotent for the same site + ticket ID */
+  write(siteId: string, bets: NormalizedBet[]): Promise<BetSinkResult>;
+
+  /** Release the underlying connection */
+  close(): Promise<void>;
+}
+
+/** Wrap a normalized bet in the generic ScrapedItem envelope (null if it has no ticket ID) */
+export function toScrapedItem(bet: NormalizedBet, scrapedAt: Date = new Date()): ScrapedItem | null {
+  if (!bet.betId) return null;
+  return {
+    sourceId: bet.betId,
+    type: 'bet',
+    data: bet as unknown as Record<string, unknown>,
+    scrapedAt,
+    siteId: bet.siteId,
+  };
+}
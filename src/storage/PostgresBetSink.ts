@@ -0,0 +1,140 @@
+import pg from 'pg';
+import type { NormalizedBet, ScrapedItem } from '../types/index.js';
+import { toScrapedItem, type BetSink, type BetSinkResult } from './BetSink.js';
+
+/**
+ * Schema migrations, applied in order and tracked in bb_schema_migrations.
+ * Never edit an existing entry - append a new one.
+ */
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE IF NOT EXISTS scraped_items (
+    site_id TEXT NOT NULL,
+    source_id TEXT NOT NULL,
+    type TEXT NOT NULL,
+    data JSONB NOT NULL,
+    raw JSONB NOT NULL DEFAULT '{}'::jsonb,
+    scraped_at TIMESTAMPTZ NOT NULL,
+    first_seen_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    PRIMARY KEY (site_id, source_id)
+  );
+  CREATE INDEX IF NOT EXISTS scraped_items_type ON scraped_items (type);
+  CREATE INDEX IF NOT EXISTS scraped_items_scraped_at ON scraped_items (scraped_at);
+  `,
+];
+
+/**
+ * Writes scraped bets to PostgreSQL for BB-CBB.
+ *
+ * Each bet is stored as a ScrapedItem row keyed by (site_id, source_id = ticket ID),
+ * with the normalized bet in `data` and the original scraper row in `raw`.
+ * Re-writing the same ticket updates it in place.
+ */
+export class PostgresBetSink implements BetSink {
+  readonly name = 'postgres';
+  private pool: pg.Pool;
+  private ready: Promise<void> | null = null;
+
+  constructor(connectionString: string) {
+    this.pool = new pg.Pool({ connectionString });
+  }
+
+  /** Apply pending migrations (runs once, before the first write) */
+  migrate(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.runMigrations().catch((err) => {
+        this.ready = null;
+        throw err;
+      });
+    }
+    return this.ready;
+  }
+
+  async write(_siteId: string, bets: NormalizedBet[]): Promise<BetSinkResult> {
+    const scrapedAt = new Date();
+    const items = bets
+      .map((bet) => toScrapedItem(bet, scrapedAt))
+      .filter((item): item is ScrapedItem => item !== null);
+
+    await this.upsert(items);
+    return { written: items.length, skipped: bets.length - items.length };
+  }
+
+  /** Insert or update ScrapedItem rows in one transaction */
+  async upsert(items: ScrapedItem[]): Promise<void> {
+    if (items.length === 0) return;
+    await this.migrate();
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      for (const item of items) {
+        await client.query(
+          `INSERT INTO scraped_items (site_id, source_id, type, data, raw, scraped_at)
+           VALUES ($1, $2, $3, $4, $5, $6)
+           ON CONFLICT (site_id, source_id) DO UPDATE SET
+             type = EXCLUDED.type,
+             data = EXCLUDED.data,
+             raw = EXCLUDED.raw,
+             scraped_at = EXCLUDED.scraped_at,
+             updated_at = now()`,
+          [
+            item.siteId,
+            item.sourceId,
+            item.type,
+            JSON.stringify(item.data),
+            JSON.stringify(item.data.raw ?? {}),
+            item.scrapedAt,
+          ]
+        );
+      }
+      await client.query('COMMIT');
+    } catch (err) {
+      await this.rollback(client);
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+
+  private async runMigrations(): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        'CREATE TABLE IF NOT EXISTS bb_schema_migrations (version INTEGER PRIMARY KEY, applied_at TIMESTAMPTZ NOT NULL DEFAULT now())'
+      );
+      const { rows } = await client.query<{ version: number | null }>(
+        'SELECT MAX(version) AS version FROM bb_schema_migrations'
+      );
+      const current = rows[0]?.version ?? 0;
+
+      for (let i = current; i < MIGRATIONS.length; i++) {
+        await client.query('BEGIN');
+        try {
+          await client.query(MIGRATIONS[i]);
+          await client.query('INSERT INTO bb_schema_migrations (version) VALUES ($1)', [i + 1]);
+          await client.query('COMMIT');
+        } catch (err) {
+          await this.rollback(client);
+          throw err;
+        }
+      }
+    } finally {
+      client.release();
+    }
+  }
+
+  /** Roll back, keeping the error that caused it: a failed ROLLBACK (e.g. on a dead connection) is ignored */
+  private async rollback(client: pg.PoolClient): Promise<void> {
+    try {
+      await client.query('ROLLBACK');
+    } catch {
+      // The original error is the one worth reporting
+    }
+  }
+}
@@ -0,0 +1,94 @@
+import type Database from 'better-sqlite3';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { SqliteBetRepository } from './SqliteBetRepository.js';
+import { normalizeBet } from '../bets/index.js';
+
+function bet(fields: Record<string, unknown> = {}) {
+  return normalizeBet('site', {
+    placedAt: '2024-12-05T14:30:00.000Z',
+    selection: 'Boston Celtics -5.5',
+    event: 'Boston Celtics vs Miami Heat',
+    stake: 110,
+    toWin: 100,
+    status: 'Pending',
+    ...fields,
+  });
+}
+
+function changeCount(repository: SqliteBetRepository): number {
+  const db = (repository as unknown as { db: Database.Database }).db;
+  return (db.prepare('SELECT COUNT(*) AS n FROM bet_changes').get() as { n: number }).n;
+}
+
+describe('SqliteBetRepository', () => {
+  let repository: SqliteBetRepository;
+
+  beforeEach(() => {
+    repository = new SqliteBetRepository(':memory:');
+  });
+
+  afterEach(async () => {
+    await repository.close();
+  });
+
+  it('writes no change row when an unchanged bet is saved again', async () => {
+    await repository.saveBets('site', [bet({ betId: '1' })]);
+    const result = await repository.saveBets('site', [bet({ betId: '1' })]);
+
+    expect(result).toEqual({ added: 0, updated: 0, total: 1 });
+    expect(changeCount(repository)).toBe(0);
+  });
+
+  it('records the prior values once when a bet grades', async () => {
+    await repository.saveBets('site', [bet({ betId: '1' })]);
+    const result = await repository.saveBets('site', [bet({ betId: '1', status: 'Won', winLoss: 100 })]);
+
+    expect(result).toEqual({ added: 0, updated: 1, total: 1 });
+    const [stored] = await repository.getBets({ siteId: 'site' });
+    expect(stored).toMatchObject({ status: 'won', profit: 100 });
+    expect(stored.changes).toHaveLength(1);
+    expect(stored.changes![0]).toMatchObject({ status: 'pending', profit: null });
+  });
+
+  it('keeps only the most recent changes per bet', async () => {
+    await repository.saveBets('site', [bet({ betId: '1', status: 'Won', winLoss: 0 })]);
+    for (let i = 1; i <= 11; i++) {
+      await repository.saveBets('site', [bet({ betId: '1', status: 'Won', winLoss: i })]);
+    }
+
+    const [stored] = await repository.getBets({ siteId: 'site' });
+    expect(stored.profit).toBe(11);
+    expect(stored.changes).toHaveLength(10);
+    // Newest first; the oldest (profit 0) was pruned at the 11th change
+    expect(stored.changes!.map((change) => change.profit)).toEqual([10, 9, 8, 7, 6, 5, 4, 3, 2, 1]);
+  });
+
+  it('folds an ID-less bet into the row with the same fingerprint', async () => {
+    await repository.saveBets('site', [bet()]);
+    const result = await repository.saveBets('site', [bet({ status: 'Lost', winLoss: -110 })]);
+
+    expect(result).toEqual({ added: 0, updated: 1, total: 1 });
+    const [stored] = await repository.getBets({ siteId: 'site' });
+    expect(stored).toMatchObject({ betId: null, status: 'lost', profit: -110 });
+    expect(stored.changes).toHaveLength(1);
+  });
+
+  it('merges duplicates stored before fingerprint matching', async () => {
+    await repository.saveBets('site', [bet({ selection: 'Celtics -5.5' }), bet({ selection: 'Boston Celtics -5.5' })]);
+    await repository.saveBets('site', [bet({ selection: 'Celtics -5.5', status: 'Won', winLoss: 100 })]);
+    await repository.saveBets('site', [bet({ betId: '7', selection: 'Heat +5.5' })]);
+    await repository.saveBets('other', [bet()]);
+    // Same fingerprint for all three rows, as an older build could have stored them
+    const db = (repository as unknown as { db: Database.Database }).db;
+    db.prepare("UPDATE bets SET fingerprint = 'duplicate' WHERE site_id = 'site'").run();
+
+    const result = await repository.dedupeBets('site');
+
+    expect(result).toEqual({ removed: 2, total: 1 });
+    const [kept] = await repository.getBets({ siteId: 'site' });
+    // The ticketed row survives and inherits the change history
+    expect(kept.betId).toBe('7');
+    expect(kept.changes).toHaveLength(1);
+    expect(await repository.countBets({ siteId: 'other' })).toBe(1);
+  });
+});
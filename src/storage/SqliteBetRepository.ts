@@ -0,0 +1,503 @@
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import type { NormalizedBet, BetChange } from '../types/index.js';
+import { betFingerprint } from '../bets/index.js';
+import type {
+  BetRepository,
+  BetQuery,
+  SaveBetsResult,
+  DedupeResult,
+  FetchRun,
+  BalanceSnapshot,
+} from './BetRepository.js';
+
+const DEFAULT_DB_FILE = './data/bb-betting.db';
+
+/** Prior values kept per bet; older changes are pruned */
+const MAX_CHANGES_PER_BET = 10;
+
+/**
+ * Schema migrations, applied in order and tracked with PRAGMA user_version.
+ * Never edit an existing entry - append a new one.
+ */
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE bets (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    site_id TEXT NOT NULL,
+    bet_id TEXT,
+    placed_at TEXT,
+    settled_at TEXT,
+    sport TEXT,
+    league TEXT,
+    event TEXT,
+    market TEXT,
+    selection TEXT NOT NULL DEFAULT '',
+    stake REAL NOT NULL DEFAULT 0,
+    to_win REAL NOT NULL DEFAULT 0,
+    profit REAL,
+    odds_american REAL,
+    odds_decimal REAL,
+    status TEXT NOT NULL,
+    ticket_type TEXT NOT NULL DEFAULT 'straight',
+    teaser_points REAL,
+    legs TEXT NOT NULL DEFAULT '[]',
+    raw TEXT NOT NULL DEFAULT '{}',
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE UNIQUE INDEX bets_site_bet_id ON bets (site_id, bet_id);
+  CREATE INDEX bets_site_placed ON bets (site_id, placed_at);
+  CREATE INDEX bets_status ON bets (status);
+
+  CREATE TABLE fetch_runs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    site_id TEXT NOT NULL,
+    started_at TEXT NOT NULL,
+    finished_at TEXT NOT NULL,
+    from_date TEXT,
+    to_date TEXT,
+    success INTEGER NOT NULL,
+    fetched INTEGER NOT NULL DEFAULT 0,
+    added INTEGER NOT NULL DEFAULT 0,
+    error TEXT
+  );
+  CREATE INDEX fetch_runs_site ON fetch_runs (site_id, started_at);
+
+  CREATE TABLE balance_snapshots (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    site_id TEXT NOT NULL,
+    balance REAL NOT NULL,
+    currency TEXT NOT NULL,
+    recorded_at TEXT NOT NULL
+  );
+  CREATE INDEX balance_snapshots_site ON balance_snapshots (site_id, recorded_at);
+  `,
+  `
+  CREATE TABLE bet_changes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    bet_row_id INTEGER NOT NULL REFERENCES bets (id) ON DELETE CASCADE,
+    changed_at TEXT NOT NULL,
+    status TEXT NOT NULL,
+    profit REAL,
+    settled_at TEXT
+  );
+  CREATE INDEX bet_changes_bet ON bet_changes (bet_row_id, changed_at);
+  `,
+  `
+  ALTER TABLE bets ADD COLUMN fingerprint TEXT;
+  CREATE INDEX bets_site_fingerprint ON bets (site_id, fingerprint);
+  `,
+];
+
+interface BetRow {
+  id?: number;
+  site_id: string;
+  bet_id: string | null;
+  placed_at: string | null;
+  settled_at: string | null;
+  sport: string | null;
+  league: string | null;
+  event: string | null;
+  market: string | null;
+  selection: string;
+  stake: number;
+  to_win: number;
+  profit: number | null;
+  odds_american: number | null;
+  odds_decimal: number | null;
+  status: NormalizedBet['status'];
+  ticket_type: NormalizedBet['ticketType'];
+  teaser_points: number | null;
+  legs: string;
+  raw: string;
+  fingerprint: string;
+}
+
+interface BetChangeRow {
+  bet_row_id: number;
+  changed_at: string;
+  status: NormalizedBet['status'];
+  profit: number | null;
+  settled_at: string | null;
+}
+
+interface FetchRunRow {
+  id: number;
+  site_id: string;
+  started_at: string;
+  finished_at: string;
+  from_date: string | null;
+  to_date: string | null;
+  success: number;
+  fetched: number;
+  added: number;
+  error: string | null;
+}
+
+interface BalanceRow {
+  id: number;
+  site_id: string;
+  balance: number;
+  currency: string;
+  recorded_at: string;
+}
+
+/**
+ * SQLite-backed BetRepository.
+ * better-sqlite3 is synchronous, so each call runs to completion without
+ * interleaving - concurrent saves cannot lose each other's rows.
+ */
+export class SqliteBetRepository implements BetRepository {
+  private db: Database.Database;
+
+  constructor(dbFile?: string) {
+    const file = dbFile ?? DEFAULT_DB_FILE;
+    if (file !== ':memory:') {
+      mkdirSync(dirname(file), { recursive: true });
+    }
+    this.db = new Database(file);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.migrate();
+    this.backfillFingerprints();
+  }
+
+  /** Apply any migrations newer than the database's user_version */
+  private migrate(): void {
+    const version = this.db.pragma('user_version', { simple: true }) as number;
+    for (let i = version; i < MIGRATIONS.length; i++) {
+      this.db.transaction(() => {
+        this.db.exec(MIGRATIONS[i]);
+        this.db.pragma(`user_version = ${i + 1}`);
+      })();
+    }
+  }
+
+  /** Fill in fingerprints for rows stored before they existed */
+  private backfillFingerprints(): void {
+    const rows = this.db.prepare('SELECT * FROM bets WHERE fingerprint IS NULL').all() as Array<BetRow & { id: number }>;
+    if (rows.length === 0) return;
+
+    const update = this.db.prepare('UPDATE bets SET fingerprint = ? WHERE id = ?');
+    this.db.transaction(() => {
+      for (const row of rows) {
+        update.run(betFingerprint(this.fromRow(row)), row.id);
+      }
+    })();
+  }
+
+  async saveBets(siteId: string, bets: NormalizedBet[]): Promise<SaveBetsResult> {
+    type Existing = Pick<BetRow, 'id' | 'status' | 'profit' | 'settled_at'>;
+    const findByBetId = this.db.prepare(
+      'SELECT id, status, profit, settled_at FROM bets WHERE site_id = ? AND bet_id = ?'
+    );
+    // Prefer a row with a ticket ID when an ID-less bet matches several
+    const findByFingerprint = this.db.prepare(`
+      SELECT id, status, profit, settled_at FROM bets
+      WHERE site_id = ? AND fingerprint = ? AND (bet_id IS NULL OR ?)
+      ORDER BY bet_id IS NULL, id LIMIT 1
+    `);
+    const insert = this.db.prepare(`
+      INSERT INTO bets (
+        site_id, bet_id, placed_at, settled_at, sport, league, event, market, selection,
+        stake, to_win, profit, odds_american, odds_decimal, status, ticket_type, teaser_points,
+        legs, raw, fingerprint, created_at, updated_at
+      ) VALUES (
+        @site_id, @bet_id, @placed_at, @settled_at, @sport, @league, @event, @market, @selection,
+        @stake, @to_win, @profit, @odds_american, @odds_decimal, @status, @ticket_type, @teaser_points,
+        @legs, @raw, @fingerprint, @now, @now
+      )
+    `);
+    const update = this.db.prepare(`
+      UPDATE bets SET
+        bet_id = COALESCE(@bet_id, bet_id), fingerprint = @fingerprint, placed_at = @placed_at, settled_at = @settled_at, sport = @sport, league = @league,
+        event = @event, market = @market, selection = @selection, stake = @stake, to_win = @to_win,
+        profit = @profit, odds_american = @odds_american, odds_decimal = @odds_decimal,
+        status = @status, ticket_type = @ticket_type, teaser_points = @teaser_points,
+        legs = @legs, raw = @raw, updated_at = @now
+      WHERE id = @id
+    `);
+    const recordChange = this.db.prepare(`
+      INSERT INTO bet_changes (bet_row_id, changed_at, status, profit, settled_at)
+      VALUES (@id, @now, @status, @profit, @settled_at)
+    `);
+    const pruneChanges = this.db.prepare(`
+      DELETE FROM bet_changes WHERE bet_row_id = @id AND id NOT IN (
+        SELECT id FROM bet_changes WHERE bet_row_id = @id ORDER BY id DESC LIMIT ${MAX_CHANGES_PER_BET}
+      )
+    `);
+
+    const counts = this.db.transaction((rows: NormalizedBet[]) => {
+      const now = new Date().toISOString();
+      let added = 0;
+      let updated = 0;
+
+      for (const bet of rows) {
+        const row = this.toRow({ ...bet, siteId });
+        // A ticket ID wins; without one, match on fingerprint. A bet that gains a
+        // ticket ID on a later scrape takes over its ID-less row.
+        const byBetId = row.bet_id ? (findByBetId.get(siteId, row.bet_id) as Existing | undefined) : undefined;
+        const existing =
+          byBetId ?? (findByFingerprint.get(siteId, row.fingerprint, row.bet_id ? 0 : 1) as Existing | undefined);
+
+        if (!existing) {
+          insert.run({ ...row, now });
+          added++;
+          continue;
+        }
+
+        const changed = this.hasChanged(existing, row);
+        if (changed) {
+          recordChange.run({ ...existing, now });
+          pruneChanges.run({ id: existing.id });
+        }
+        // Gaining a ticket ID is always written, even when nothing else changed
+        if (changed || (row.bet_id && !byBetId)) {
+          update.run({ ...row, id: existing.id, now });
+          updated++;
+        }
+      }
+      return { added, updated };
+    })(bets);
+
+    return { ...counts, total: await this.countBets({ siteId }) };
+  }
+
+  /** Whether a re-scraped bet differs from the stored one in a way worth recording */
+  private hasChanged(
+    stored: Pick<BetRow, 'status' | 'profit' | 'settled_at'>,
+    incoming: Pick<BetRow, 'status' | 'profit' | 'settled_at'>
+  ): boolean {
+    const cents = (value: number | null) => (value === null ? null : Math.round(value * 100));
+    return (
+      stored.status !== incoming.status ||
+      cents(stored.profit) !== cents(incoming.profit) ||
+      (stored.settled_at ?? null) !== (incoming.settled_at ?? null)
+    );
+  }
+
+  async dedupeBets(siteId: string): Promise<DedupeResult> {
+    const rows = this.db
+      .prepare('SELECT id, bet_id, fingerprint FROM bets WHERE site_id = ? ORDER BY id DESC')
+      .all(siteId) as Array<{ id: number; bet_id: string | null; fingerprint: string }>;
+
+    const groups = new Map<string, typeof rows>();
+    for (const row of rows) {
+      const group = groups.get(row.fingerprint) ?? [];
+      group.push(row);
+      groups.set(row.fingerprint, group);
+    }
+
+    const moveChanges = this.db.prepare('UPDATE bet_changes SET bet_row_id = ? WHERE bet_row_id = ?');
+    const remove = this.db.prepare('DELETE FROM bets WHERE id = ?');
+
+    const removed = this.db.transaction(() => {
+      let count = 0;
+      for (const group of groups.values()) {
+        if (group.length < 2) continue;
+
+        // Rows with distinct ticket IDs are separate bets; ID-less rows fold into
+        // a ticketed row if there is one, otherwise into the newest ID-less row
+        const keeper = group.find((row) => row.bet_id !== null) ?? group[0];
+        for (const row of group) {
+          if (row === keeper || row.bet_id !== null) continue;
+          moveChanges.run(keeper.id, row.id);
+          remove.run(row.id);
+          count++;
+        }
+      }
+      return count;
+    })();
+
+    return { removed, total: await this.countBets({ siteId }) };
+  }
+
+  async getBets(query: BetQuery = {}): Promise<NormalizedBet[]> {
+    const { where, params } = this.buildWhere(query);
+    let sql = `SELECT * FROM bets ${where} ORDER BY placed_at DESC, id DESC`;
+    if (query.limit !== undefined) {
+      sql += ' LIMIT @limit OFFSET @offset';
+      params.limit = query.limit;
+      params.offset = query.offset ?? 0;
+    }
+    const rows = this.db.prepare(sql).all(params) as BetRow[];
+    const changes = this.getChanges(rows.map((row) => row.id!));
+    return rows.map((row) => {
+      const bet = this.fromRow(row);
+      const history = changes.get(row.id!);
+      return history ? { ...bet, changes: history } : bet;
+    });
+  }
+
+  /** Change history for a set of bet rows, newest first */
+  private getChanges(ids: number[]): Map<number, BetChange[]> {
+    const byBet = new Map<number, BetChange[]>();
+    if (ids.length === 0) return byBet;
+
+    // Chunk to stay under SQLite's bound-parameter limit
+    for (let i = 0; i < ids.length; i += 500) {
+      const chunk = ids.slice(i, i + 500);
+      const rows = this.db
+        .prepare(
+          `SELECT * FROM bet_changes WHERE bet_row_id IN (${chunk.map(() => '?').join(',')}) ORDER BY id DESC`
+        )
+        .all(...chunk) as BetChangeRow[];
+
+      for (const row of rows) {
+        const list = byBet.get(row.bet_row_id) ?? [];
+        list.push({ changedAt: row.changed_at, status: row.status, profit: row.profit, settledAt: row.settled_at });
+        byBet.set(row.bet_row_id, list);
+      }
+    }
+    return byBet;
+  }
+
+  async countBets(query: BetQuery = {}): Promise<number> {
+    const { where, params } = this.buildWhere(query);
+    const row = this.db.prepare(`SELECT COUNT(*) AS n FROM bets ${where}`).get(params) as { n: number };
+    return row.n;
+  }
+
+  async getLastUpdated(siteId: string): Promise<string | null> {
+    const row = this.db
+      .prepare('SELECT MAX(updated_at) AS last FROM bets WHERE site_id = ?')
+      .get(siteId) as { last: string | null };
+    return row.last;
+  }
+
+  async recordFetchRun(run: FetchRun): Promise<FetchRun> {
+    const result = this.db
+      .prepare(`
+        INSERT INTO fetch_runs (site_id, started_at, finished_at, from_date, to_date, success, fetched, added, error)
+        VALUES (@siteId, @startedAt, @finishedAt, @fromDate, @toDate, @success, @fetched, @added, @error)
+      `)
+      .run({ ...run, success: run.success ? 1 : 0 });
+    return { ...run, id: Number(result.lastInsertRowid) };
+  }
+
+  async listFetchRuns(siteId?: string, limit = 50): Promise<FetchRun[]> {
+    const rows = (
+      siteId
+        ? this.db.prepare('SELECT * FROM fetch_runs WHERE site_id = ? ORDER BY started_at DESC LIMIT ?').all(siteId, limit)
+        : this.db.prepare('SELECT * FROM fetch_runs ORDER BY started_at DESC LIMIT ?').all(limit)
+    ) as FetchRunRow[];
+
+    return rows.map((row) => ({
+      id: row.id,
+      siteId: row.site_id,
+      startedAt: row.started_at,
+      finishedAt: row.finished_at,
+      fromDate: row.from_date,
+      toDate: row.to_date,
+      success: row.success === 1,
+      fetched: row.fetched,
+      added: row.added,
+      error: row.error,
+    }));
+  }
+
+  async recordBalance(snapshot: BalanceSnapshot): Promise<BalanceSnapshot> {
+    const result = this.db
+      .prepare(`
+        INSERT INTO balance_snapshots (site_id, balance, currency, recorded_at)
+        VALUES (@siteId, @balance, @currency, @recordedAt)
+      `)
+      .run(snapshot);
+    return { ...snapshot, id: Number(result.lastInsertRowid) };
+  }
+
+  async listBalances(siteId: string, limit = 100): Promise<BalanceSnapshot[]> {
+    const rows = this.db
+      .prepare('SELECT * FROM balance_snapshots WHERE site_id = ? ORDER BY recorded_at DESC LIMIT ?')
+      .all(siteId, limit) as BalanceRow[];
+
+    return rows.map((row) => ({
+      id: row.id,
+      siteId: row.site_id,
+      balance: row.balance,
+      currency: row.currency,
+      recordedAt: row.recorded_at,
+    }));
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+
+  /** Build a WHERE clause from a query */
+  private buildWhere(query: BetQuery): { where: string; params: Record<string, unknown> } {
+    const clauses: string[] = [];
+    const params: Record<string, unknown> = {};
+
+    if (query.siteId) {
+      clauses.push('site_id = @siteId');
+      params.siteId = query.siteId;
+    }
+    if (query.from) {
+      clauses.push('placed_at >= @from');
+      params.from = query.from;
+    }
+    if (query.to) {
+      // A bare YYYY-MM-DD should include the whole day
+      clauses.push('placed_at <= @to');
+      params.to = /^\d{4}-\d{2}-\d{2}$/.test(query.to) ? `${query.to}T23:59:59.999Z` : query.to;
+    }
+    if (query.status) {
+      clauses.push('status = @status');
+      params.status = query.status;
+    }
+
+    return { where: clauses.length ? `WHERE ${clauses.join(' AND ')}` : '', params };
+  }
+
+  private toRow(bet: NormalizedBet): BetRow {
+    return {
+      fingerprint: betFingerprint(bet),
+      site_id: bet.siteId,
+      bet_id: bet.betId,
+      placed_at: bet.placedAt,
+      settled_at: bet.settledAt,
+      sport: bet.sport,
+      league: bet.league,
+      event: bet.event,
+      market: bet.market,
+      selection: bet.selection,
+      stake: bet.stake,
+      to_win: bet.toWin,
+      profit: bet.profit,
+      odds_american: bet.oddsAmerican,
+      odds_decimal: bet.oddsDecimal,
+      status: bet.status,
+      ticket_type: bet.ticketType,
+      teaser_points: bet.teaserPoints,
+      legs: JSON.stringify(bet.legs ?? []),
+      raw: JSON.stringify(bet.raw ?? {}),
+    };
+  }
+
+  private fromRow(row: BetRow): NormalizedBet {
+    return {
+      siteId: row.site_id,
+      betId: row.bet_id,
+      placedAt: row.placed_at,
+      settledAt: row.settled_at,
+      sport: row.sport,
+      league: row.league,
+      event: row.event,
+      market: row.market,
+      selection: row.selection,
+      stake: row.stake,
+      toWin: row.to_win,
+      profit: row.profit,
+      oddsAmerican: row.odds_american,
+      oddsDecimal: row.odds_decimal,
+      status: row.status,
+      ticketType: row.ticket_type,
+      teaserPoints: row.teaser_points,
+      legs: JSON.parse(row.legs),
+      raw: JSON.parse(row.raw),
+    };
+  }
+}
@@ -0,0 +1,85 @@
+import ExcelJS from 'exceljs';
+import { describe, expect, it } from 'vitest';
+import { exportBets, toExportRow } from './exportBets.js';
+import { normalizeBet } from '../bets/index.js';
+
+const HEADER =
+  'site_id,bet_id,placed_at,settled_at,sport,league,event,market,selection,ticket_type,teaser_points,leg_count,' +
+  'odds_american,odds_decimal,stake,to_win,status,profit';
+
+const BET = normalizeBet('pinnacle', {
+  betId: '1894512376',
+  placedAt: '2024-12-05T14:30:00.000Z',
+  sport: 'Basketball',
+  league: 'NBA',
+  event: 'Boston Celtics vs Miami Heat',
+  market: 'spread',
+  selection: 'Celtics -5.5, "alt line"',
+  odds: '-110',
+  stake: 110,
+  toWin: 100,
+  status: 'Won',
+});
+
+describe('exportBets', () => {
+  it('maps a bet onto the export columns', () => {
+    expect(toExportRow(BET)).toEqual({
+      site_id: 'pinnacle',
+      bet_id: '1894512376',
+      placed_at: '2024-12-05T14:30:00.000Z',
+      settled_at: null,
+      sport: 'Basketball',
+      league: 'NBA',
+      event: 'Boston Celtics vs Miami Heat',
+      market: 'spread',
+      selection: 'Celtics -5.5, "alt line"',
+      ticket_type: 'straight',
+      teaser_points: null,
+      leg_count: 1,
+      odds_american: -110,
+      odds_decimal: 1.909,
+      stake: 110,
+      to_win: 100,
+      status: 'won',
+      profit: 100,
+    });
+  });
+
+  it('writes CSV with commas and quotes escaped', async () => {
+    const csv = (await exportBets([BET], 'csv')) as string;
+
+    expect(csv.split('\r\n')).toEqual([
+      HEADER,
+      'pinnacle,1894512376,2024-12-05T14:30:00.000Z,,Basketball,NBA,Boston Celtics vs Miami Heat,spread,' +
+        '"Celtics -5.5, ""alt line""",straight,,1,-110,1.909,110,100,won,100',
+      '',
+    ]);
+  });
+
+  it('writes only the header for no bets', async () => {
+    expect(await exportBets([], 'csv')).toBe(`${HEADER}\r\n`);
+    expect(await exportBets([], 'jsonl')).toBe('');
+  });
+
+  it('writes one JSON object per line', async () => {
+    const jsonl = (await exportBets([BET, BET], 'jsonl')) as string;
+    const lines = jsonl.trimEnd().split('\n');
+
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[0])).toEqual(toExportRow(BET));
+  });
+
+  it('writes an XLSX sheet with the same columns', async () => {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load((await exportBets([BET], 'xlsx')) as unknown as ExcelJS.Buffer);
+    const sheet = workbook.getWorksheet('Bets')!;
+
+    const values = (row: number) => (sheet.getRow(row).values as unknown[]).slice(1);
+    expect(values(1)).toEqual(HEADER.split(','));
+    const row = values(2);
+    expect(row[8]).toBe('Celtics -5.5, "alt line"');
+    expect(row[12]).toBe(-110);
+    expect(row[16]).toBe('won');
+    expect(row[17]).toBe(100);
+  });
+});
@@ -0,0 +1,95 @@
+import ExcelJS from 'exceljs';
+import type { NormalizedBet } from '../types/index.js';
+
+export type ExportFormat = 'csv' | 'jsonl' | 'xlsx';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'jsonl', 'xlsx'];
+
+/** Content-Type sent with each export format */
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  jsonl: 'application/x-ndjson; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+type ExportValue = string | number | null;
+
+interface ExportColumn {
+  header: string;
+  value: (bet: NormalizedBet) => ExportValue;
+  /** Excel column width in characters */
+  width: number;
+}
+
+/**
+ * Export columns, identical for every book so downstream sheets and scripts
+ * can rely on the order. Append new columns at the end.
+ */
+const COLUMNS: ExportColumn[] = [
+  { header: 'site_id', value: (b) => b.siteId, width: 12 },
+  { header: 'bet_id', value: (b) => b.betId, width: 14 },
+  { header: 'placed_at', value: (b) => b.placedAt, width: 22 },
+  { header: 'settled_at', value: (b) => b.settledAt, width: 22 },
+  { header: 'sport', value: (b) => b.sport, width: 12 },
+  { header: 'league', value: (b) => b.league, width: 12 },
+  { header: 'event', value: (b) => b.event, width: 30 },
+  { header: 'market', value: (b) => b.market, width: 12 },
+  { header: 'selection', value: (b) => b.selection, width: 40 },
+  { header: 'ticket_type', value: (b) => b.ticketType, width: 12 },
+  { header: 'teaser_points', value: (b) => b.teaserPoints, width: 8 },
+  { header: 'leg_count', value: (b) => b.legs.length, width: 8 },
+  { header: 'odds_american', value: (b) => b.oddsAmerican, width: 10 },
+  { header: 'odds_decimal', value: (b) => b.oddsDecimal, width: 10 },
+  { header: 'stake', value: (b) => b.stake, width: 10 },
+  { header: 'to_win', value: (b) => b.toWin, width: 10 },
+  { header: 'status', value: (b) => b.status, width: 10 },
+  { header: 'profit', value: (b) => b.profit, width: 10 },
+];
+
+/** Flatten a bet into the export columns */
+export function toExportRow(bet: NormalizedBet): Record<string, ExportValue> {
+  const row: Record<string, ExportValue> = {};
+  for (const column of COLUMNS) {
+    row[column.header] = column.value(bet);
+  }
+  return row;
+}
+
+/** Render bets in the requested format (a string for csv/jsonl, a Buffer for xlsx) */
+export async function exportBets(bets: NormalizedBet[], format: ExportFormat): Promise<string | Buffer> {
+  switch (format) {
+    case 'csv':
+      return toCsv(bets);
+    case 'jsonl':
+      return bets.map((bet) => JSON.stringify(toExportRow(bet))).join('\n') + (bets.length ? '\n' : '');
+    case 'xlsx':
+      return toXlsx(bets);
+  }
+}
+
+function toCsv(bets: NormalizedBet[]): string {
+  const escape = (value: ExportValue): string => {
+    if (value === null) return '';
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const lines = [COLUMNS.map((c) => c.header).join(',')];
+  for (const bet of bets) {
+    lines.push(COLUMNS.map((c) => escape(c.value(bet))).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+async function toXlsx(bets: NormalizedBet[]): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('Bets', { views: [{ state: 'frozen', ySplit: 1 }] });
+
+  sheet.columns = COLUMNS.map((c) => ({ header: c.header, key: c.header, width: c.width }));
+  sheet.getRow(1).font = { bold: true };
+  for (const bet of bets) {
+    sheet.addRow(toExportRow(bet));
+  }
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
@@ -0,0 +1,109 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { importJsonCache } from './importJsonCache.js';
+import { SqliteBetRepository } from './SqliteBetRepository.js';
+import { WorkflowManager } from '../workflows/WorkflowManager.js';
+import { PinnacleWorkflow } from '../workflows/PinnacleWorkflow.js';
+
+/**
+ * Rows exactly as the old dashboard's fetchHistoryPinnacle cached them: table
+ * cells split into pick/matchup/leagueInfo, the signed amount in winLoss and
+ * the outcome wording in result.
+ */
+const LEGACY_PINNACLE_CACHE = {
+  siteId: 'pinnacle',
+  lastUpdated: '2024-12-20T10:00:00.000Z',
+  bets: [
+    {
+      betId: '1894512376',
+      sport: 'Basketball',
+      placedAt: '05/12/2024 14:30',
+      settledAt: '05/12/2024 22:05',
+      pick: 'Boston Celtics -5.5',
+      matchup: 'Boston Celtics vs Miami Heat',
+      betType: 'Handicap',
+      leagueInfo: 'NBA',
+      product: 'Sports',
+      odds: '1.909',
+      stake: '110.00',
+      winLoss: '99.99',
+      commission: '0.00',
+      status: 'Settled',
+      result: 'Win',
+      scores: '112-98',
+      site: 'pinnacle',
+      scrapedAt: '2024-12-20T09:59:58.000Z',
+    },
+    {
+      betId: '1894512377',
+      sport: 'Soccer',
+      placedAt: '06/12/2024 19:00',
+      settledAt: '06/12/2024 21:00',
+      pick: 'Arsenal',
+      matchup: 'Arsenal vs Chelsea',
+      betType: 'Moneyline',
+      leagueInfo: 'England - Premier League',
+      product: 'Sports',
+      odds: '2.100',
+      stake: '50.00',
+      winLoss: '-50.00',
+      commission: '0.00',
+      status: 'Settled',
+      result: 'Loss',
+      scores: '0-1',
+      site: 'pinnacle',
+      scrapedAt: '2024-12-20T09:59:58.000Z',
+    },
+  ],
+};
+
+describe('importJsonCache', () => {
+  let cacheDir: string;
+  let repository: SqliteBetRepository;
+  let workflows: WorkflowManager;
+
+  beforeEach(async () => {
+    cacheDir = await mkdtemp(join(tmpdir(), 'bb-cache-'));
+    repository = new SqliteBetRepository(':memory:');
+    workflows = new WorkflowManager();
+    workflows.register('pinnacle', PinnacleWorkflow);
+    workflows.addSite({ id: 'pinnacle', name: 'Pinnacle', baseUrl: 'https://www.probet42.com' });
+  });
+
+  afterEach(async () => {
+    await repository.close();
+    await rm(cacheDir, { recursive: true, force: true });
+  });
+
+  it('maps the legacy Pinnacle cache layout', async () => {
+    await writeFile(join(cacheDir, 'pinnacle-history.json'), JSON.stringify(LEGACY_PINNACLE_CACHE));
+
+    const [result] = await importJsonCache(repository, (siteId, rows) => workflows.normalizeBets(siteId, rows), cacheDir);
+    expect(result).toMatchObject({ siteId: 'pinnacle', rows: 2, added: 2, total: 2 });
+
+    const bets = await repository.getBets({ siteId: 'pinnacle' });
+    const won = bets.find((bet) => bet.betId === '1894512376');
+    const lost = bets.find((bet) => bet.betId === '1894512377');
+
+    expect(won).toMatchObject({
+      status: 'won',
+      selection: 'Boston Celtics -5.5',
+      event: 'Boston Celtics vs Miami Heat',
+      league: 'NBA',
+      stake: 110,
+      toWin: 99.99,
+      profit: 99.99,
+    });
+    expect(won?.placedAt).toBe(new Date(2024, 11, 5, 14, 30).toISOString());
+    expect(lost).toMatchObject({
+      status: 'lost',
+      selection: 'Arsenal',
+      event: 'Arsenal vs Chelsea',
+      league: 'England - Premier League',
+      toWin: 55,
+      profit: -50,
+    });
+  });
+});
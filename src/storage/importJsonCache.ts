@@ -0,0 +1,56 @@
+import { readFile, readdir } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import type { NormalizedBet } from '../types/index.js';
+import type { BetRepository } from './BetRepository.js';
+
+const DEFAULT_CACHE_DIR = './cache';
+
+/** Maps a site's raw history rows onto NormalizedBet (e.g. WorkflowManager.normalizeBets) */
+export type BetNormalizer = (siteId: string, rows: Array<Record<string, unknown>>) => Promise<NormalizedBet[]>;
+
+export interface CacheImportResult {
+  siteId: string;
+  file: string;
+  rows: number;
+  added: number;
+  total: number;
+}
+
+/**
+ * One-time import of the old ./cache/<site>-history.json files into a BetRepository.
+ *
+ * Rows are re-normalized from their raw form (older files hold raw scraper rows,
+ * newer ones hold NormalizedBet with the raw row attached), so they pick up the
+ * current mappers. Re-running is safe: bets match on betId, or on fingerprint
+ * when they have none.
+ */
+export async function importJsonCache(
+  repository: BetRepository,
+  normalize: BetNormalizer,
+  cacheDir: string = DEFAULT_CACHE_DIR
+): Promise<CacheImportResult[]> {
+  if (!existsSync(cacheDir)) return [];
+
+  const files = (await readdir(cacheDir)).filter((file) => file.endsWith('-history.json'));
+  const results: CacheImportResult[] = [];
+
+  for (const file of files) {
+    const path = join(cacheDir, file);
+    const cache = JSON.parse(await readFile(path, 'utf-8')) as {
+      siteId?: string;
+      bets?: Array<Record<string, unknown>>;
+    };
+
+    const siteId = cache.siteId || file.replace(/-history\.json$/, '');
+    const rows = (cache.bets ?? []).map((bet) =>
+      bet.raw && typeof bet.raw === 'object' ? (bet.raw as Record<string, unknown>) : bet
+    );
+
+    const bets = await normalize(siteId, rows);
+    const { added, total } = await repository.saveBets(siteId, bets);
+    results.push({ siteId, file: path, rows: rows.length, added, total });
+  }
+
+  return results;
+}
@@ -0,0 +1,6 @@
+export type { BetRepository, BetQuery, SaveBetsResult, DedupeResult, FetchRun, BalanceSnapshot } from './BetRepository.js';
+export { SqliteBetRepository } from './SqliteBetRepository.js';
+export { importJsonCache, type BetNormalizer, type CacheImportResult } from './importJsonCache.js';
+export { toScrapedItem, type BetSink, type BetSinkResult } from './BetSink.js';
+export { PostgresBetSink } from './PostgresBetSink.js';
+export { exportBets, toExportRow, EXPORT_FORMATS, EXPORT_CONTENT_TYPES, type ExportFormat } from './exportBets.js';
@@ -1,7 +1,22 @@
 import type { Page } from 'playwright';
 import { BrowserManager } from '../core/BrowserManager.js';
 import { BrowserInstance } from '../core/BrowserInstance.js';
-import type { SiteConfig, ISiteWorkflow, WorkflowResult } from '../types/index.js';
+import { normalizeBet } from '../bets/index.js';
+import type {
+  SiteConfig,
+  ISiteWorkflow,
+  WorkflowResult,
+  NormalizedBet,
+  DownloadInfo,
+  ProxyConfig,
+} from '../types/index.js';
+
+/** Chrome/Playwright errors that mean the proxy, not the site, is at fault */
+const PROXY_ERROR = /ERR_PROXY|ERR_TUNNEL_CONNECTION_FAILED|ERR_SOCKS|ERR_TIMED_OUT|ERR_CONNECTION_(REFUSED|RESET|CLOSED)|\b407\b/;
+
+function isProxyError(err: unknown): boolean {
+  return PROXY_ERROR.test((err as Error)?.message ?? String(err));
+}
 
 /**
  * Base class for site-specific workflows.
@@ -27,19 +42,73 @@ export abstract class BaseSiteWorkflow implements ISiteWorkflow {
     // Check if browser already exists
     if (this.manager.has(this.config.id)) {
       this.browser = this.manager.get(this.config.id)!;
-    } else {
-      this.browser = await this.manager.create({
-        name: this.config.id,
-        proxy: this.config.proxy,
-        headless: this.config.headless,
-      });
+      // Chrome died since the last run - bring it back before using it
+      if (this.browser.status === 'error') {
+        await this.manager.relaunch(this.config.id);
+      }
+      await this.openSite();
+      return;
+    }
+
+    // Launch through each candidate proxy in turn until one gets to the site
+    const candidates = this.proxyCandidates();
+    for (const [index, proxy] of candidates.entries()) {
+      try {
+        await this.launch(proxy);
+        await this.openSite();
+        return;
+      } catch (err) {
+        const next = candidates[index + 1];
+        if (!next || !isProxyError(err)) throw err;
+
+        console.warn(
+          `⚠️  ${this.config.id}: proxy ${proxy?.name ?? proxy?.server} failed (${(err as Error).message.split('\n')[0]}), ` +
+            `trying ${next.name ?? next.server}`
+        );
+        this.browser = null;
+        this.page = null;
+        // A failed launch never registers; a failed navigation leaves a browser to close
+        if (this.manager.has(this.config.id)) {
+          await this.manager.close(this.config.id);
+        }
+      }
     }
+  }
+
+  /**
+   * Proxies to launch through, in order: the pool's members (in the order its
+   * owner hands out, rotated for a round-robin pool), or just the site's own proxy.
+   */
+  private proxyCandidates(): Array<(ProxyConfig & { name?: string }) | undefined> {
+    const pool = this.config.proxyPool;
+    const proxies = pool?.launchOrder?.() ?? pool?.proxies;
+    return proxies?.length ? proxies : [this.config.proxy];
+  }
+
+  private async launch(proxy: ProxyConfig | undefined): Promise<void> {
+    this.browser = await this.manager.create({
+      name: this.config.id,
+      proxy: proxy && { server: proxy.server, username: proxy.username, password: proxy.password, bypass: proxy.bypass },
+      headless: this.config.headless,
+      launchProfile: this.config.launchProfile,
+      relaunchOnCrash: this.config.relaunchOnCrash,
+      dialogPolicy: this.config.dialogPolicy,
+      blocking: this.config.blocking,
+      cdpUrl: this.config.cdpUrl,
+      userDataDir: this.config.persistentProfile ? await this.manager.ensureProfile(this.config.id) : undefined,
+    });
+  }
 
-    // Try to load existing session
-    await this.loadSession();
+  /** Load the saved session and navigate to the base URL */
+  private async openSite(): Promise<void> {
+    // Try to load existing session (a persistent profile or an attached
+    // browser the operator logged into already carries its own state)
+    if (!this.config.persistentProfile && !this.config.cdpUrl) {
+      await this.loadSession();
+    }
 
     // Navigate to base URL
-    this.page = await this.browser.goto(this.config.baseUrl);
+    this.page = await this.getBrowser().goto(this.config.baseUrl);
   }
 
   /** Get the current page, throwing if not initialized */
@@ -58,6 +127,21 @@ export abstract class BaseSiteWorkflow implements ISiteWorkflow {
     return this.browser;
   }
 
+  /**
+   * Run an action that starts a download (e.g. clicking "Export CSV") and wait
+   * for the file to land in this site's downloads directory.
+   */
+  protected async captureDownload(trigger: () => Promise<unknown>, timeoutMs = 60_000): Promise<DownloadInfo> {
+    const page = this.getPage();
+    const [download] = await Promise.all([page.waitForEvent('download', { timeout: timeoutMs }), trigger()]);
+
+    const info = await this.getBrowser().awaitDownload(download);
+    if (info.error) {
+      throw new Error(`Download of ${info.suggestedFilename} failed: ${info.error}`);
+    }
+    return info;
+  }
+
   /**
    * Check if user is logged in.
    * Override this in subclass with site-specific logic.
@@ -140,6 +224,22 @@ export abstract class BaseSiteWorkflow implements ISiteWorkflow {
     return false;
   }
 
+  /**
+   * Get bet history for a date range.
+   * Override in subclass once the site's history page has been mapped out.
+   */
+  async getBetHistory(_fromDate?: Date, _toDate?: Date): Promise<WorkflowResult<unknown[]>> {
+    return this.result(false, [], `Bet history not implemented for ${this.config.name}`);
+  }
+
+  /**
+   * Map a raw history row onto NormalizedBet.
+   * Default reads the common field names; override for the site's own row shape.
+   */
+  normalizeBet(raw: Record<string, unknown>): NormalizedBet {
+    return normalizeBet(this.config.id, raw);
+  }
+
   /** Close the browser */
   async close(): Promise<void> {
     if (this.browser) {
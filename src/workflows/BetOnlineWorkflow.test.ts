@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { BetOnlineWorkflow } from './BetOnlineWorkflow.js';
+import { BrowserManager } from '../core/BrowserManager.js';
+
+const workflow = new BetOnlineWorkflow({ id: 'betonline', name: 'BetOnline', baseUrl: 'https://example.test' }, new BrowserManager());
+
+describe('BetOnline multi-leg tickets', () => {
+  it.each([
+    ['Parlay (3 Teams)', true],
+    ['Teaser 6 pts', true],
+    ['Round Robin', true],
+    ['If Bet', true],
+    ['If Win Only', true],
+    ['Action Reverse', true],
+    ['Straight', false],
+    ['Spread', false],
+    // "if" and "robin" alone used to match
+    ['Gift Card Promo', false],
+    ['Robinson Props', false],
+  ])('ticket type %j -> %s', (type, multiLeg) => {
+    expect(BetOnlineWorkflow.MULTI_LEG_TYPES.test(type)).toBe(multiLeg);
+  });
+
+  it('maps a parlay with its legs', () => {
+    const bet = workflow.normalizeBet({
+      betId: '55501',
+      betType: 'Parlay (3 Teams)',
+      description: 'Lakers -5 -110 Celtics o215.5 -110 Knicks ML +120',
+      legs: [{ text: 'Lakers -5 -110' }, { text: 'Celtics o215.5 -110' }, { text: 'Knicks ML +120' }],
+      status: 'Won',
+      stake: '$10.00',
+      toWin: '$60.00',
+    });
+    expect(bet).toMatchObject({ ticketType: 'parlay', teaserPoints: null, status: 'won', profit: 60 });
+    expect(bet.legs).toHaveLength(3);
+  });
+
+  it('maps a teaser with its points', () => {
+    const bet = workflow.normalizeBet({
+      betType: 'Teaser 6 pts',
+      legs: [{ text: 'Chiefs +3 -110' }, { text: 'Eagles -1 -110' }],
+      status: 'Pending',
+      stake: '$120.00',
+      toWin: '$100.00',
+    });
+    expect(bet).toMatchObject({ ticketType: 'teaser', teaserPoints: 6, status: 'pending', profit: null });
+  });
+
+  it('keeps a straight bet straight when its description mentions a ticket type', () => {
+    const bet = workflow.normalizeBet({
+      betType: 'Straight',
+      description: 'Parlay FC vs Round Robin United - Teaser Cup ML -150',
+      status: 'Lost',
+      stake: '$150.00',
+      toWin: '$100.00',
+    });
+    expect(bet).toMatchObject({ ticketType: 'straight', teaserPoints: null, status: 'lost', profit: -150 });
+    expect(bet.legs).toHaveLength(1);
+  });
+});
@@ -1,6 +1,20 @@
 import { BaseSiteWorkflow } from './BaseSiteWorkflow.js';
 import type { BrowserManager } from '../core/BrowserManager.js';
-import type { SiteConfig, WorkflowResult } from '../types/index.js';
+import {
+  parseMoney,
+  parseBetStatus,
+  profitFor,
+  oddsFromStake,
+  inferMarket,
+  toIso,
+  round2,
+  str,
+  parseTicketType,
+  ticketLegs,
+  toRawLegs,
+  commonValue,
+} from '../bets/index.js';
+import type { SiteConfig, WorkflowResult, NormalizedBet } from '../types/index.js';
 
 /**
  * BetOnline workflow for betonline.ag betting site.
@@ -14,6 +28,9 @@ import type { SiteConfig, WorkflowResult } from '../types/index.js';
 export class BetOnlineWorkflow extends BaseSiteWorkflow {
   static readonly DEFAULT_URL = 'https://www.betonline.ag';
 
+  /** Ticket-type column values for tickets that list one leg per line */
+  static readonly MULTI_LEG_TYPES = /\b(parlay|teaser|round robin|if (bet|win)|reverse)\b/i;
+
   constructor(config: SiteConfig, manager: BrowserManager) {
     super(
       {
@@ -170,24 +187,34 @@ export class BetOnlineWorkflow extends BaseSiteWorkflow {
       }
 
       // Scrape bet data
-      const bets = await page.evaluate(() => {
+      const bets = await page.evaluate((multiLegTypes) => {
         return Array.from(document.querySelectorAll('.bet-history__table__body__rows')).map((row) => {
           const cols = row.querySelectorAll('.bet-history__table__body__rows__columns > div');
           const ticketEl = cols[0];
           const dateEl = cols[1];
           const descEl = cols[2];
-          const statusEl = cols[4];
+          const typeEl = cols[4];
           const amountEl = cols[5];
           const toWinEl = cols[6];
 
           const amountText = amountEl?.textContent?.trim() || '';
           const amounts = amountText.match(/\$[\d,]+\.\d+/g) || [];
 
+          // Multi-leg tickets list one child element per leg in the description column
+          const ticketType = typeEl?.textContent?.trim() || '';
+          const multiLeg = new RegExp(multiLegTypes, 'i').test(ticketType);
+          const legs = multiLeg
+            ? Array.from(descEl?.children ?? [])
+                .map((leg) => ({ text: leg.textContent?.trim()?.replace(/\s+/g, ' ') || '' }))
+                .filter((leg) => leg.text)
+            : [];
+
           return {
             betId: ticketEl?.textContent?.trim()?.replace(/[^\d-]/g, ''),
             date: dateEl?.textContent?.trim(),
             description: descEl?.textContent?.trim(),
-            betType: statusEl?.textContent?.trim(),
+            betType: ticketType,
+            legs,
             status: amountEl?.textContent?.includes('Won')
               ? 'Won'
               : amountEl?.textContent?.includes('Lost')
@@ -201,11 +228,58 @@ export class BetOnlineWorkflow extends BaseSiteWorkflow {
             scrapedAt: new Date().toISOString(),
           };
         });
-      });
+      }, BetOnlineWorkflow.MULTI_LEG_TYPES.source);
 
       return this.result(true, bets);
     } catch (err) {
       return this.result(false, [], (err as Error).message);
     }
   }
+
+  /**
+   * Map a BetOnline history row onto NormalizedBet.
+   * Raw shape: stake/toWin as "$110.00" strings, status Won/Lost/Cancelled/Pending,
+   * legs only captured for multi-leg tickets.
+   */
+  normalizeBet(raw: Record<string, unknown>): NormalizedBet {
+    const stake = Math.abs(parseMoney(raw.stake) ?? 0);
+    const toWin = Math.abs(parseMoney(raw.toWin) ?? 0);
+    const status = parseBetStatus(raw.status);
+    const rawLegs = toRawLegs(raw.legs);
+    const { ticketType, teaserPoints } = parseTicketType(raw.betType, rawLegs.length);
+    const selection = str(raw, 'description') ?? '';
+    const market = rawLegs.length > 1 ? null : inferMarket(selection) ?? str(raw, 'betType');
+    const odds = oddsFromStake(stake, toWin);
+    const legs = ticketLegs(rawLegs, {
+      event: null,
+      sport: null,
+      market,
+      selection,
+      oddsAmerican: odds.american,
+      oddsDecimal: odds.decimal,
+      status,
+    });
+
+    return {
+      siteId: this.config.id,
+      betId: str(raw, 'betId'),
+      placedAt: toIso(raw.date),
+      settledAt: null,
+      sport: null,
+      league: null,
+      event: legs.length > 1 ? null : legs[0]?.event ?? null,
+      market: legs.length > 1 ? commonValue(legs, 'market') : market,
+      selection,
+      stake: round2(stake),
+      toWin: round2(toWin),
+      profit: profitFor(status, stake, toWin),
+      oddsAmerican: odds.american,
+      oddsDecimal: odds.decimal,
+      status,
+      ticketType,
+      teaserPoints,
+      legs,
+      raw,
+    };
+  }
 }
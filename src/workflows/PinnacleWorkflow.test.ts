@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from 'vitest';
+import { PinnacleWorkflow } from './PinnacleWorkflow.js';
+import { BrowserManager } from '../core/BrowserManager.js';
+
+/** A workflow whose page access is stubbed to serve the given history table pages */
+function withHistoryPages(pages: string[][][]) {
+  const workflow = new PinnacleWorkflow({ id: 'pinnacle', name: 'Pinnacle', baseUrl: 'https://example.test' }, new BrowserManager());
+  let page = 0;
+  const stub = workflow as unknown as Record<string, unknown>;
+  stub.isLoggedIn = async () => true;
+  stub.navigateToBetHistory = async () => true;
+  stub.searchSettled = vi.fn(async () => {
+    page = 0;
+  });
+  stub.readHistoryTable = vi.fn(async () => pages[page] ?? []);
+  stub.nextHistoryPage = vi.fn(async () => ++page < pages.length);
+  stub.randomDelay = async () => {};
+  return workflow;
+}
+
+function row(betId: string, placed: string, winLoss: string, status = 'Settled'): string[] {
+  return ['', 'Sports', `${betId}\nSoccer\n${placed}\n${placed}`, 'Arsenal\nArsenal vs Chelsea\nMoneyline\nEPL', '2.10', '50.00', winLoss, '0.00', status];
+}
+
+describe('PinnacleWorkflow history', () => {
+  it('maps a settled row with no win or loss to push', async () => {
+    const workflow = withHistoryPages([[row('1', '05/12/2024 14:30', '0.00')]]);
+    const result = await workflow.getBetHistory(new Date(2024, 11, 5), new Date(2024, 11, 5));
+
+    expect(result.data?.[0].status).toBe('push');
+    expect(workflow.normalizeBet({ ...result.data![0] })).toMatchObject({ status: 'push', profit: 0 });
+  });
+
+  it('reports rows it could not read instead of dropping them silently', async () => {
+    const workflow = withHistoryPages([
+      [row('1', '05/12/2024 14:30', '55.00'), row('2', 'yesterday-ish', '-50.00'), ['spacer']],
+    ]);
+    const result = await workflow.getBetHistory(new Date(2024, 11, 5), new Date(2024, 11, 5));
+
+    expect(result.success).toBe(true);
+    expect(result.data).toHaveLength(1);
+    expect(result.warnings).toEqual(['1 history row(s) skipped: no bet ID or unreadable placed date']);
+  });
+
+  it('stops paging once the signal is aborted', async () => {
+    const controller = new AbortController();
+    const workflow = withHistoryPages([[row('1', '05/12/2024 14:30', '55.00')], [row('2', '05/12/2024 15:30', '55.00')]]);
+    const stub = workflow as unknown as { nextHistoryPage: () => Promise<boolean> };
+    const next = stub.nextHistoryPage;
+    stub.nextHistoryPage = async () => {
+      controller.abort();
+      return next();
+    };
+
+    const result = await workflow.getBetHistory(new Date(2024, 10, 1), new Date(2024, 11, 31), controller.signal);
+
+    expect(result.success).toBe(false);
+    // One page read; neither the second page nor the second 30-day window was
+    expect((workflow as unknown as { readHistoryTable: ReturnType<typeof vi.fn> }).readHistoryTable).toHaveBeenCalledTimes(1);
+    expect((workflow as unknown as { searchSettled: ReturnType<typeof vi.fn> }).searchSettled).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,6 +1,20 @@
 import { BaseSiteWorkflow } from './BaseSiteWorkflow.js';
 import type { BrowserManager } from '../core/BrowserManager.js';
-import type { SiteConfig, WorkflowResult } from '../types/index.js';
+import {
+  parseMoney,
+  parseBetStatus,
+  toOdds,
+  toIso,
+  round2,
+  oddsFromStake,
+  profitFor,
+  parseTicketType,
+  ticketLegs,
+  toRawLegs,
+  commonValue,
+  type RawLeg,
+} from '../bets/index.js';
+import type { SiteConfig, WorkflowResult, NormalizedBet } from '../types/index.js';
 
 /**
  * Bet history item from Pinnacle/probet42
@@ -33,7 +47,24 @@ export interface PinnacleBetHistoryItem {
   /** Actual win/loss (if settled) */
   result?: number;
   /** Bet status */
-  status: 'pending' | 'won' | 'lost' | 'void' | 'cashout';
+  status: 'pending' | 'won' | 'lost' | 'push' | 'void' | 'cashout';
+  /** Product column (e.g., "Sports") */
+  product?: string;
+  /** Commission charged (if any) */
+  commission?: number;
+  /** Final scores shown with the result */
+  scores?: string;
+  /** Legs of a parlay/teaser (absent for straight bets) */
+  legs?: RawLeg[];
+}
+
+/** Field names the old dashboard's Pinnacle scraper cached rows under */
+interface LegacyPinnacleRow {
+  pick?: string;
+  matchup?: string;
+  leagueInfo?: string;
+  /** Signed amount won or lost, e.g. "90.91" or "-110.00" */
+  winLoss?: string;
 }
 
 /**
@@ -42,12 +73,30 @@ export interface PinnacleBetHistoryItem {
  * Site structure (as of Dec 2024):
  * - Login: Header fields (Username, Password) + "SIGN IN" button
  * - Logged in: Login fields replaced with account info/balance
- * - Bet history: TBD - need to explore once logged in
+ * - Bet history: /en/account/my-bets-full -> li[data=SETTLED] filter,
+ *   DD/MM/YYYY fromDate/toDate inputs, "Search", 9-column results table
  */
 export class PinnacleWorkflow extends BaseSiteWorkflow {
   // Default base URL for probet42 (Pinnacle mirror)
   static readonly DEFAULT_URL = 'https://probet42.com';
 
+  /** Full My Bets page (settled/open filters, date range search) */
+  static readonly HISTORY_PATH = '/en/account/my-bets-full';
+
+  /** Largest date range searched at once; longer ranges are split */
+  static readonly MAX_RANGE_DAYS = 30;
+
+  /** Safety cap on result pages read per date window */
+  static readonly MAX_PAGES = 50;
+
+  private static readonly NEXT_PAGE_SELECTORS = [
+    '.pagination li.next:not(.disabled) a',
+    '.pagination a[rel="next"]',
+    'button:has-text("Next"):not([disabled])',
+  ];
+
+  private static readonly BALANCE_SELECTORS = ['.account-balance', '.balance', '[class*="balance"]'];
+
   constructor(config: SiteConfig, manager: BrowserManager) {
     super(
       {
@@ -148,62 +197,96 @@ export class PinnacleWorkflow extends BaseSiteWorkflow {
   }
 
   /**
-   * Get bet history for a specific date or date range.
+   * Get settled bet history for a date range.
    *
-   * TODO: Implement once logged in and bet history page is discovered.
+   * Uses the My Bets (full) page with the SETTLED filter. Long ranges are split
+   * into windows of MAX_RANGE_DAYS, and each window is paged until the table
+   * runs out, so nothing past the first table is missed.
    *
-   * @param date - Specific date to get history for
-   * @param endDate - Optional end date for range query
+   * @param date - Start of range (defaults to today)
+   * @param endDate - End of range, inclusive (defaults to start date)
+   * @param signal - Stops between windows and pages once aborted
    */
   async getBetHistory(
     date?: Date,
-    endDate?: Date
+    endDate?: Date,
+    signal?: AbortSignal
   ): Promise<WorkflowResult<PinnacleBetHistoryItem[]>> {
     try {
-      const page = this.getPage();
-
       // Ensure we're logged in
       if (!(await this.isLoggedIn())) {
         return this.result(false, [], 'Not logged in. Call login() first.');
       }
 
-      // TODO: Navigate to bet history page
-      // The URL structure needs to be discovered by exploring the logged-in site
-      // Common patterns:
-      // - /account/history
-      // - /my-bets
-      // - /bet-history
-      // - Account menu dropdown -> "Bet History" or "My Bets"
+      const from = date ?? new Date();
+      const to = endDate ?? from;
+      if (from.getTime() > to.getTime()) {
+        return this.result(false, [], 'Start date must be on or before end date');
+      }
+
+      if (!(await this.navigateToBetHistory())) {
+        return this.result(false, [], 'Could not open bet history page');
+      }
 
-      console.log('⚠️ getBetHistory() not yet implemented - need to discover history page URL');
-      console.log('   Please navigate to bet history manually and note the URL/selectors');
+      const bets = new Map<string, PinnacleBetHistoryItem>();
+      let skipped = 0;
+
+      for (const [windowFrom, windowTo] of this.splitRange(from, to)) {
+        signal?.throwIfAborted();
+        await this.searchSettled(windowFrom, windowTo);
+
+        // Read every page of results for this window
+        for (let pageNum = 1; pageNum <= PinnacleWorkflow.MAX_PAGES; pageNum++) {
+          signal?.throwIfAborted();
+          const before = bets.size;
+          for (const row of await this.readHistoryTable()) {
+            // Shorter rows are spacers and expanded details, not bets
+            if (row.length < 6) continue;
+            const bet = this.parseHistoryRow(row);
+            if (bet) {
+              bets.set(bet.betId, bet);
+            } else {
+              skipped++;
+            }
+          }
+
+          // Stop when the pager is exhausted or a page brought nothing new
+          if (bets.size === before || !(await this.nextHistoryPage())) break;
+        }
 
-      // Placeholder: return empty array
-      return this.result(true, [], 'Not implemented - need to discover history page');
+        await this.randomDelay(800, 1500);
+      }
 
+      const result = this.result(true, Array.from(bets.values()));
+      if (skipped) {
+        const warning = `${skipped} history row(s) skipped: no bet ID or unreadable placed date`;
+        console.warn(`⚠️  ${this.config.id}: ${warning}`);
+        result.warnings = [warning];
+      }
+      return result;
     } catch (err) {
       return this.result(false, [], (err as Error).message);
     }
   }
 
   /**
-   * Navigate to bet history page.
-   * TODO: Implement once URL is discovered.
+   * Navigate to the full My Bets page.
+   * Returns true once the history filters are on screen.
    */
   async navigateToBetHistory(): Promise<boolean> {
-    // TODO: Implement navigation to bet history
-    // This might involve:
-    // 1. Clicking account menu
-    // 2. Selecting "Bet History" or similar
-    // 3. Or navigating directly to a URL
+    const page = this.getPage();
+    const url = new URL(PinnacleWorkflow.HISTORY_PATH, this.config.baseUrl).toString();
 
-    console.log('⚠️ navigateToBetHistory() not yet implemented');
-    return false;
+    if (!page.url().startsWith(url)) {
+      await page.goto(url);
+    }
+
+    return await this.waitFor('li[data=SETTLED]', 10000);
   }
 
   /**
    * Get current account balance.
-   * TODO: Implement once balance selector is discovered.
+   * Reads the balance shown in the header once logged in (e.g. "USD 1,234.56").
    */
   async getBalance(): Promise<WorkflowResult<{ balance: number; currency: string } | null>> {
     try {
@@ -211,19 +294,77 @@ export class PinnacleWorkflow extends BaseSiteWorkflow {
         return this.result(false, null, 'Not logged in');
       }
 
-      // TODO: Find balance selector after logging in
-      // Common patterns:
-      // - .balance, .account-balance
-      // - Element near username showing "$X,XXX.XX"
-
-      console.log('⚠️ getBalance() not yet implemented - need to find balance selector');
-      return this.result(true, null, 'Not implemented');
+      for (const selector of PinnacleWorkflow.BALANCE_SELECTORS) {
+        const text = await this.getText(selector);
+        const balance = text ? parseMoney(text) : null;
+        if (balance !== null) {
+          return this.result(true, { balance, currency: this.parseCurrency(text!) });
+        }
+      }
 
+      return this.result(false, null, 'Balance not found on page');
     } catch (err) {
       return this.result(false, null, (err as Error).message);
     }
   }
 
+  /**
+   * Map a PinnacleBetHistoryItem onto NormalizedBet.
+   * Dates may be Date objects (fresh scrape), ISO strings (from cache) or the
+   * site's DD/MM/YYYY text. Rows cached by the old dashboard scraper use
+   * LegacyPinnacleRow field names, "Settled" for status and "Win"/"Loss" for result.
+   */
+  normalizeBet(raw: Record<string, unknown>): NormalizedBet {
+    const bet = raw as unknown as PinnacleBetHistoryItem & LegacyPinnacleRow;
+    const stake = parseMoney(bet.stake) ?? 0;
+    const potentialWin = parseMoney(bet.potentialWin);
+    const odds = bet.odds ? toOdds(bet.odds) : oddsFromStake(stake, potentialWin ?? 0);
+    const result = parseMoney(bet.result) ?? parseMoney(bet.winLoss);
+    // A non-numeric result is status wording; an absent status means the amount decides
+    const wording = typeof bet.result === 'string' && parseMoney(bet.result) === null ? bet.result : '';
+    const status = this.parseStatus(`${bet.status ?? 'settled'} ${wording}`, result ?? undefined);
+    // Legacy rows have no to-win column: a win paid the amount won, otherwise the odds say
+    const toWin =
+      potentialWin ??
+      (status === 'won' && result !== null && result > 0 ? result : odds.decimal ? stake * (odds.decimal - 1) : 0);
+    const selection = bet.selection || bet.pick || '';
+    const event = bet.event || bet.matchup || null;
+    const rawLegs = toRawLegs(bet.legs);
+    const { ticketType, teaserPoints } = parseTicketType(`${bet.product ?? ''} ${bet.betType ?? ''}`, rawLegs.length);
+    const legs = ticketLegs(rawLegs, {
+      event,
+      sport: bet.sport || null,
+      market: bet.betType || null,
+      selection,
+      oddsAmerican: odds.american,
+      oddsDecimal: odds.decimal,
+      status,
+    });
+    const multiLeg = legs.length > 1;
+
+    return {
+      siteId: this.config.id,
+      betId: bet.betId || null,
+      placedAt: this.toIsoDate(bet.placedAt),
+      settledAt: this.toIsoDate(bet.settledAt),
+      sport: bet.sport || null,
+      league: bet.league || bet.leagueInfo || null,
+      event: multiLeg ? commonValue(legs, 'event') : event,
+      market: multiLeg ? commonValue(legs, 'market') : bet.betType || null,
+      selection,
+      stake: round2(stake),
+      toWin: round2(toWin),
+      profit: status === 'pending' ? null : result !== null ? round2(result) : profitFor(status, stake, toWin),
+      oddsAmerican: odds.american,
+      oddsDecimal: odds.decimal,
+      status,
+      ticketType,
+      teaserPoints,
+      legs,
+      raw,
+    };
+  }
+
   /**
    * Take a screenshot of current page state.
    * Useful for debugging and discovering page structure.
@@ -240,4 +381,144 @@ export class PinnacleWorkflow extends BaseSiteWorkflow {
 
     return buffer;
   }
+
+  /** Select the SETTLED filter, set the DD/MM/YYYY date inputs and run the search */
+  private async searchSettled(from: Date, to: Date): Promise<void> {
+    const page = this.getPage();
+
+    await this.click('li[data=SETTLED] a');
+    await this.sleep(1000);
+
+    await page.evaluate(
+      ([fromStr, toStr]) => {
+        const fromInput = document.querySelector('input[name=fromDate]') as HTMLInputElement | null;
+        const toInput = document.querySelector('input[name=toDate]') as HTMLInputElement | null;
+        if (fromInput) fromInput.value = fromStr;
+        if (toInput) toInput.value = toStr;
+      },
+      [this.formatDate(from), this.formatDate(to)]
+    );
+
+    await this.click('text=Search');
+    await this.sleep(3000);
+  }
+
+  /** Read the history table as rows of cell text */
+  private async readHistoryTable(): Promise<string[][]> {
+    return await this.getPage().evaluate(() =>
+      Array.from(document.querySelectorAll('table tbody tr')).map((row) =>
+        Array.from(row.querySelectorAll('td')).map((td) => (td as HTMLElement).innerText.trim())
+      )
+    );
+  }
+
+  /** Click the next-page control if there is one, returns false on the last page */
+  private async nextHistoryPage(): Promise<boolean> {
+    const page = this.getPage();
+    for (const selector of PinnacleWorkflow.NEXT_PAGE_SELECTORS) {
+      const next = await page.$(selector);
+      if (next && (await next.isVisible())) {
+        await next.click();
+        await this.sleep(1500);
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Parse one row of the 9-column history table:
+   * [0] -, [1] product, [2] id/sport/placed/settled, [3] pick/matchup/type/league,
+   * [4] odds, [5] stake, [6] win/loss, [7] commission, [8] status/result/scores
+   * Returns null when the row has no bet ID or its placed date cannot be read.
+   */
+  private parseHistoryRow(cells: string[]): PinnacleBetHistoryItem | null {
+    const lines = (cell?: string) => (cell || '').split('\n').map((s) => s.trim()).filter(Boolean);
+    const details = lines(cells[2]);
+    const selection = lines(cells[3]);
+    const statusParts = lines(cells[8] || cells[7]);
+
+    const betId = details[0];
+    const placedAt = this.parseDate(details[2]);
+    if (!betId || !placedAt) return null;
+
+    const odds = toOdds(cells[4]).decimal ?? 0;
+    const stake = parseMoney(cells[5]) ?? 0;
+    const result = parseMoney(cells[6]) ?? undefined;
+
+    // Multi-leg tickets repeat the pick/matchup/type/league block once per leg
+    const legs: RawLeg[] = [];
+    for (let i = 0; selection.length > 4 && i < selection.length; i += 4) {
+      legs.push({ text: selection[i], event: selection[i + 1] ?? null, market: selection[i + 2] ?? null });
+    }
+
+    return {
+      betId,
+      placedAt,
+      settledAt: this.parseDate(details[3]) ?? undefined,
+      sport: details[1] || '',
+      league: legs.length ? '' : selection[3] || '',
+      event: legs.length ? '' : selection[1] || '',
+      betType: legs.length ? cells[1] || '' : selection[2] || '',
+      selection: legs.length ? legs.map((l) => l.text).join(' / ') : selection[0] || '',
+      odds,
+      stake,
+      currency: this.parseCurrency(cells[5]),
+      potentialWin: odds > 1 ? round2(stake * (odds - 1)) : 0,
+      result,
+      status: this.parseStatus(statusParts.slice(0, 2).join(' '), result),
+      product: cells[1] || undefined,
+      commission: parseMoney(cells[7]) ?? undefined,
+      scores: statusParts.slice(2).join(' | ') || undefined,
+      legs: legs.length ? legs : undefined,
+    };
+  }
+
+  /** Map Pinnacle status/result text (plus the win/loss amount) onto our status */
+  private parseStatus(text: string, result?: number): PinnacleBetHistoryItem['status'] {
+    // Pinnacle only shows "Settled" for most graded bets, so the win/loss amount decides
+    const settled = /settled|graded/i.test(text) ? result : undefined;
+    return parseBetStatus(text, settled);
+  }
+
+  /** Pull a 3-letter currency code from text, defaulting to USD */
+  private parseCurrency(text?: string): string {
+    return text?.match(/\b[A-Z]{3}\b/)?.[0] ?? 'USD';
+  }
+
+  /** Parse "DD/MM/YYYY HH:mm[:ss]" (Pinnacle's format), falling back to Date.parse */
+  private parseDate(text?: string): Date | null {
+    if (!text) return null;
+    const m = text.match(/(\d{1,2})\/(\d{1,2})\/(\d{4})(?:\s+(\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+    if (m) {
+      const [, d, mo, y, h = '0', mi = '0', sec = '0'] = m;
+      return new Date(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(sec));
+    }
+    const parsed = new Date(text);
+    return isNaN(parsed.getTime()) ? null : parsed;
+  }
+
+  /** ISO timestamp for a scraped Date or cached date string (ISO or DD/MM/YYYY) */
+  private toIsoDate(value: unknown): string | null {
+    return toIso(typeof value === 'string' ? this.parseDate(value) : value);
+  }
+
+  /** Format a date as DD/MM/YYYY for the history search inputs */
+  private formatDate(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${pad(date.getDate())}/${pad(date.getMonth() + 1)}/${date.getFullYear()}`;
+  }
+
+  /** Split [from, to] into consecutive windows of at most MAX_RANGE_DAYS */
+  private splitRange(from: Date, to: Date): Array<[Date, Date]> {
+    const dayMs = 24 * 60 * 60 * 1000;
+    const windows: Array<[Date, Date]> = [];
+    let start = from;
+    while (start.getTime() <= to.getTime()) {
+      const end = new Date(Math.min(start.getTime() + (PinnacleWorkflow.MAX_RANGE_DAYS - 1) * dayMs, to.getTime()));
+      windows.push([start, end]);
+      start = new Date(end.getTime() + dayMs);
+    }
+    return windows;
+  }
 }
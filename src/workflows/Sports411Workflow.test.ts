@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { Sports411Workflow } from './Sports411Workflow.js';
+import { BrowserManager } from '../core/BrowserManager.js';
+
+const workflow = new Sports411Workflow({ id: 'sports411', name: 'Sports411', baseUrl: 'https://example.test' }, new BrowserManager());
+
+function placedAt(row: Record<string, unknown>): string | null {
+  return workflow.normalizeBet({ riskWin: '110.00 / 100.00', winLoss: '100.00', selection: 'Lakers -5 -110', ...row }).placedAt;
+}
+
+describe('Sports411 ticket dates', () => {
+  it.each([
+    ['a date inside a same-year range', '03/14', '2024-03-31T12:00:00.000Z', new Date(2024, 2, 14, 19, 5)],
+    ['a December ticket in a December-January range', '12/30', '2025-01-10T12:00:00.000Z', new Date(2024, 11, 30, 19, 5)],
+    ['a January ticket in a December-January range', '01/02', '2025-01-10T12:00:00.000Z', new Date(2025, 0, 2, 19, 5)],
+    ['a range from an earlier year', '06/01', '2022-06-30T12:00:00.000Z', new Date(2022, 5, 1, 19, 5)],
+  ])('%s', (_case, date, rangeTo, expected) => {
+    expect(placedAt({ date, time: '7:05 PM', rangeTo, scrapedAt: '2026-01-15T09:00:00.000Z' })).toBe(expected.toISOString());
+  });
+
+  it('falls back to when an older cached row was scraped', () => {
+    expect(placedAt({ date: '12/30', time: '7:05 AM', scrapedAt: '2025-01-03T09:00:00.000Z' })).toBe(
+      new Date(2024, 11, 30, 7, 5).toISOString()
+    );
+  });
+
+  it('leaves the date empty rather than guessing a year', () => {
+    expect(placedAt({ date: '12/30', time: '7:05 PM' })).toBeNull();
+  });
+});
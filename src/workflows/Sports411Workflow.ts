@@ -1,6 +1,20 @@
 import { BaseSiteWorkflow } from './BaseSiteWorkflow.js';
 import type { BrowserManager } from '../core/BrowserManager.js';
-import type { SiteConfig, WorkflowResult } from '../types/index.js';
+import {
+  parseMoney,
+  parseMoneyList,
+  parseBetStatus,
+  profitFor,
+  oddsFromStake,
+  inferMarket,
+  round2,
+  str,
+  parseTicketType,
+  ticketLegs,
+  toRawLegs,
+  commonValue,
+} from '../bets/index.js';
+import type { SiteConfig, WorkflowResult, NormalizedBet } from '../types/index.js';
 
 /**
  * Sports411 workflow for sports411.ag betting site.
@@ -169,10 +183,16 @@ export class Sports411Workflow extends BaseSiteWorkflow {
           return Array.from(document.querySelectorAll('app-history-ticket .ticket')).map((t) => {
             const ticketMatch = t.querySelector('.date-data')?.textContent?.match(/Ticket # (\d+)/);
             const dateMatch = t.querySelector('.date-data')?.textContent?.match(/(\d+\/\d+)@(\d+:\d+ [AP]M)/);
+            // Each .game block is one leg (a straight bet has one)
+            const legs = Array.from(t.querySelectorAll('.game')).map((g) => ({
+              text: g.textContent?.trim()?.replace(/\n/g, ' ') || '',
+              result: g.querySelector('[class*="result"], [class*="status"]')?.textContent?.trim() || null,
+            }));
             return {
               betId: ticketMatch?.[1] || null,
               betType: t.querySelector('.bet-type')?.textContent?.trim(),
               selection: t.querySelector('.game')?.textContent?.trim()?.replace(/\n/g, ' '),
+              legs,
               date: dateMatch?.[1] || null,
               time: dateMatch?.[2] || null,
               riskWin: t.querySelectorAll('.col-2 .amount')[0]?.textContent?.trim(),
@@ -183,7 +203,8 @@ export class Sports411Workflow extends BaseSiteWorkflow {
           });
         });
 
-        allBets.push(...bets);
+        // Tickets show no year; the end of the requested range lets normalizeBet work it out
+        allBets.push(...bets.map((bet) => ({ ...bet, rangeTo: toDate?.toISOString() ?? null })));
 
         // Check for next page
         const nextBtn = await page.$('#nextBtn a:not(.disabled)');
@@ -200,4 +221,77 @@ export class Sports411Workflow extends BaseSiteWorkflow {
       return this.result(false, [], (err as Error).message);
     }
   }
+
+  /**
+   * Map a Sports411 ticket onto NormalizedBet.
+   *
+   * Raw shape: riskWin "110.00 / 100.00" (risk / to win), winLoss signed amount
+   * once graded, date "MM/DD" with no year plus time "7:05 PM", one leg per .game block.
+   */
+  normalizeBet(raw: Record<string, unknown>): NormalizedBet {
+    const [stake = 0, toWin = 0] = parseMoneyList(raw.riskWin).map(Math.abs);
+    const settled = parseMoney(raw.winLoss);
+    const status = parseBetStatus(raw.winLoss, settled);
+    const rawLegs = toRawLegs(raw.legs);
+    const { ticketType, teaserPoints } = parseTicketType(raw.betType, rawLegs.length);
+    const selection = rawLegs.length > 1 ? rawLegs.map((l) => l.text).join(' / ') : str(raw, 'selection') ?? '';
+    const market = rawLegs.length > 1 ? null : inferMarket(selection) ?? str(raw, 'betType');
+    const odds = oddsFromStake(stake, toWin);
+    const legs = ticketLegs(rawLegs, {
+      event: null,
+      sport: null,
+      market,
+      selection,
+      oddsAmerican: odds.american,
+      oddsDecimal: odds.decimal,
+      status,
+    });
+
+    return {
+      siteId: this.config.id,
+      betId: str(raw, 'betId'),
+      placedAt: this.parseTicketDate(str(raw, 'date'), str(raw, 'time'), str(raw, 'rangeTo') ?? str(raw, 'scrapedAt')),
+      settledAt: null,
+      sport: null,
+      league: null,
+      event: legs.length > 1 ? null : legs[0]?.event ?? null,
+      market: legs.length > 1 ? commonValue(legs, 'market') : market,
+      selection,
+      stake: round2(stake),
+      toWin: round2(toWin),
+      profit: status === 'pending' ? null : settled !== null ? round2(settled) : profitFor(status, stake, toWin),
+      oddsAmerican: odds.american,
+      oddsDecimal: odds.decimal,
+      status,
+      ticketType,
+      teaserPoints,
+      legs,
+      raw,
+    };
+  }
+
+  /**
+   * Build an ISO timestamp from the ticket's "MM/DD" and "h:mm AM" parts.
+   * The year comes from the reference - the end of the requested range, or
+   * for older cached rows when the row was scraped - rolling back a year if
+   * that would put the bet after it (a December bet in a December-January range).
+   */
+  private parseTicketDate(date: string | null, time: string | null, referenceAt: string | null): string | null {
+    const d = date?.match(/^(\d{1,2})\/(\d{1,2})$/);
+    const reference = referenceAt ? new Date(referenceAt) : null;
+    if (!d || !reference || isNaN(reference.getTime())) return null;
+
+    const t = time?.match(/(\d{1,2}):(\d{2})\s*([AP]M)/i);
+    let hours = t ? Number(t[1]) % 12 : 0;
+    if (t && t[3].toUpperCase() === 'PM') hours += 12;
+
+    const build = (year: number) =>
+      new Date(year, Number(d[1]) - 1, Number(d[2]), hours, t ? Number(t[2]) : 0);
+
+    let placed = build(reference.getFullYear());
+    if (placed.getTime() > reference.getTime() + 24 * 60 * 60 * 1000) {
+      placed = build(reference.getFullYear() - 1);
+    }
+    return isNaN(placed.getTime()) ? null : placed.toISOString();
+  }
 }
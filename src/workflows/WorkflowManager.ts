@@ -1,5 +1,16 @@
 import { BrowserManager } from '../core/BrowserManager.js';
-import type { ISiteWorkflow, SiteConfig, WorkflowResult } from '../types/index.js';
+import { RunArtifacts } from '../core/RunArtifacts.js';
+import { ExitIpGuard } from '../config/ExitIpGuard.js';
+import { normalizeBet } from '../bets/index.js';
+import type {
+  ISiteWorkflow,
+  SiteConfig,
+  WorkflowResult,
+  NormalizedBet,
+  RecordingOptions,
+  RunInfo,
+  ExitIpRecord,
+} from '../types/index.js';
 
 type WorkflowConstructor = new (config: SiteConfig, manager: BrowserManager) => ISiteWorkflow;
 
@@ -11,9 +22,13 @@ export class WorkflowManager {
   private registry: Map<string, WorkflowConstructor> = new Map();
   private instances: Map<string, ISiteWorkflow> = new Map();
   private configs: Map<string, SiteConfig> = new Map();
+  private artifacts: RunArtifacts;
+  private ipGuard: ExitIpGuard;
 
-  constructor(manager?: BrowserManager) {
+  constructor(manager?: BrowserManager, artifacts?: RunArtifacts, ipGuard?: ExitIpGuard) {
     this.manager = manager ?? new BrowserManager();
+    this.artifacts = artifacts ?? new RunArtifacts();
+    this.ipGuard = ipGuard ?? new ExitIpGuard();
   }
 
   /** Get the underlying BrowserManager */
@@ -21,6 +36,16 @@ export class WorkflowManager {
     return this.manager;
   }
 
+  /** Get the run artifact store */
+  getArtifacts(): RunArtifacts {
+    return this.artifacts;
+  }
+
+  /** Get the exit-IP checker and login IP history */
+  getExitIpGuard(): ExitIpGuard {
+    return this.ipGuard;
+  }
+
   /**
    * Register a workflow class for a site type.
    * @param siteType - Unique identifier for this site type (e.g., "amazon", "ebay")
@@ -32,9 +57,15 @@ export class WorkflowManager {
 
   /**
    * Add a site configuration.
+   * A changed config drops the cached workflow so the next run is built from
+   * it; an open browser is reused and keeps its proxy until it is relaunched.
    * @param config - Site configuration
    */
   addSite(config: SiteConfig): void {
+    const previous = this.configs.get(config.id);
+    if (previous && JSON.stringify(previous) !== JSON.stringify(config)) {
+      this.instances.delete(config.id);
+    }
     this.configs.set(config.id, config);
   }
 
@@ -90,10 +121,124 @@ export class WorkflowManager {
 
   /**
    * Run login for a site.
+   * @param recording - Overrides the site's recording settings for this run
+   * @param signal - Stops the run between steps once aborted (e.g. by a queue timeout)
+   */
+  async login(siteId: string, recording?: RecordingOptions, signal?: AbortSignal): Promise<WorkflowResult<void>> {
+    const workflow = await this.init(siteId);
+    signal?.throwIfAborted();
+    return await this.recordRun(siteId, 'login', recording, () => this.guardedLogin(siteId, workflow, signal));
+  }
+
+  /**
+   * Fetch bet history for a site.
+   * Launches the browser and logs in first if needed.
+   * @param recording - Overrides the site's recording settings for this run
+   * @param signal - Stops the run between steps once aborted (e.g. by a queue timeout)
+   */
+  async getBetHistory(
+    siteId: string,
+    fromDate?: Date,
+    toDate?: Date,
+    recording?: RecordingOptions,
+    signal?: AbortSignal
+  ): Promise<WorkflowResult<unknown[]>> {
+    const workflow = await this.init(siteId);
+    signal?.throwIfAborted();
+
+    return await this.recordRun(siteId, 'history', recording, async () => {
+      let warnings: string[] | undefined;
+      if (!(await workflow.isLoggedIn())) {
+        const login = await this.guardedLogin(siteId, workflow, signal);
+        if (!login.success) {
+          return {
+            success: false,
+            data: [],
+            error: login.error ?? 'Login failed',
+            timestamp: new Date(),
+            warnings: login.warnings,
+          };
+        }
+        warnings = login.warnings;
+      }
+
+      signal?.throwIfAborted();
+      const result = await workflow.getBetHistory(fromDate, toDate, signal);
+      return warnings ? { ...result, warnings: [...warnings, ...(result.warnings ?? [])] } : result;
+    });
+  }
+
+  /**
+   * Check the browser's exit IP against the site's pin, then log in.
+   * A refused drift stops the login before any credentials are entered.
    */
-  async login(siteId: string): Promise<WorkflowResult<void>> {
+  private async guardedLogin(siteId: string, workflow: ISiteWorkflow, signal?: AbortSignal): Promise<WorkflowResult<void>> {
+    const context = this.manager.get(siteId)?.getContext();
+    let check: ExitIpRecord | null = null;
+    if (context) {
+      // The stored config may have a newer pin than the workflow was created with
+      check = await this.ipGuard.check(this.configs.get(siteId) ?? workflow.config, context);
+    }
+
+    if (check?.action === 'refused') {
+      console.error(`🛑 ${siteId}: login refused - ${check.drift}`);
+      return { success: false, error: `Login refused: ${check.drift}`, timestamp: new Date() };
+    }
+    if (check?.action === 'warned') {
+      console.warn(`⚠️  ${siteId}: ${check.drift}`);
+    }
+
+    signal?.throwIfAborted();
+    const result = await workflow.login();
+    return check?.action === 'warned' ? { ...result, warnings: [check.drift!, ...(result.warnings ?? [])] } : result;
+  }
+
+  /** Run a workflow step under a run ID, recording trace/HAR if turned on */
+  private async recordRun<T>(
+    siteId: string,
+    kind: RunInfo['kind'],
+    override: RecordingOptions | undefined,
+    action: () => Promise<WorkflowResult<T>>
+  ): Promise<WorkflowResult<T>> {
+    const config = this.configs.get(siteId);
+    const options = { ...config?.recording, ...override };
+    const context = this.manager.get(siteId)?.getContext() ?? null;
+    const secrets = config?.password ? [config.password] : [];
+    const run = await this.artifacts.start(siteId, kind, context, options, secrets);
+
+    try {
+      const result = await action();
+      await run.finish({ success: result.success, error: result.error });
+      return { ...result, runId: run.runId };
+    } catch (err) {
+      await run.finish({ success: false, error: (err as Error).message });
+      throw err;
+    }
+  }
+
+  /**
+   * Read the current account balance for a site, if its workflow supports it.
+   */
+  async getBalance(
+    siteId: string,
+    signal?: AbortSignal
+  ): Promise<WorkflowResult<{ balance: number; currency: string } | null>> {
     const workflow = await this.init(siteId);
-    return await workflow.login();
+    signal?.throwIfAborted();
+    if (!workflow.getBalance) {
+      return { success: false, data: null, error: `Balance not supported for "${siteId}"`, timestamp: new Date() };
+    }
+    return await workflow.getBalance();
+  }
+
+  /**
+   * Map raw history rows onto NormalizedBet using the site's workflow mapper.
+   * Sites without a registered workflow fall back to the generic mapper.
+   * Does not launch a browser.
+   */
+  async normalizeBets(siteId: string, items: Array<Record<string, unknown>>): Promise<NormalizedBet[]> {
+    const workflow = await this.getWorkflow(siteId).catch(() => null);
+    return items.map((raw) => (workflow ? workflow.normalizeBet(raw) : normalizeBet(siteId, raw)));
   }
 
   /**